@@ -7,7 +7,9 @@ import {
   AppointmentFormData,
   CalendarView,
   AppointmentStatus,
-  AppointmentPriority 
+  AppointmentPriority,
+  RecurrenceEditScope,
+  updateRecurringAppointment
 } from './src/index';
 import './src/styles.css';
 
@@ -29,7 +31,25 @@ function MedicalCalendarExample() {
     // Simulate API call delay
     await new Promise(resolve => setTimeout(resolve, 1000));
     
-    if (selectedAppointment) {
+    if (selectedAppointment?.recurringAppointmentId) {
+      // Update one or more occurrences of a recurring appointment
+      const series = appointments.find(apt => apt.id === selectedAppointment.recurringAppointmentId);
+      if (series) {
+        const { recurrenceEditScope = RecurrenceEditScope.THIS, ...changes } = data;
+        const result = updateRecurringAppointment(
+          series,
+          selectedAppointment,
+          { ...selectedAppointment, ...changes },
+          recurrenceEditScope,
+          'UTC'
+        );
+
+        setAppointments(prev => [
+          ...prev.map(apt => result.updated.find(updated => updated.id === apt.id) || apt),
+          ...result.created,
+        ]);
+      }
+    } else if (selectedAppointment) {
       // Update existing appointment
       const updatedAppointment: Appointment = {
         ...selectedAppointment,
@@ -101,21 +121,6 @@ function MedicalCalendarExample() {
             </div>
             
             <div className="flex items-center space-x-4">
-              {/* View Selector */}
-              <div className="flex items-center space-x-2">
-                <label className="text-sm font-medium text-gray-700">View:</label>
-                <select
-                  value={currentView}
-                  onChange={(e) => handleViewChange(e.target.value as CalendarView)}
-                  className="rounded-md border border-gray-300 px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value={CalendarView.MONTH}>Month</option>
-                  <option value={CalendarView.WEEK}>Week</option>
-                  <option value={CalendarView.DAY}>Day</option>
-                  <option value={CalendarView.AGENDA}>Agenda</option>
-                </select>
-              </div>
-              
               {/* Add Appointment Button */}
               <button
                 onClick={() => {
@@ -138,8 +143,9 @@ function MedicalCalendarExample() {
           <div className="lg:col-span-3">
             <Calendar
               appointments={appointments}
+              view={currentView}
+              onViewChange={handleViewChange}
               config={{
-                view: currentView,
                 startOfWeek: 1, // Monday
                 timeFormat: '12h',
                 showWeekends: true,
@@ -154,7 +160,6 @@ function MedicalCalendarExample() {
                 onAppointmentClick: handleAppointmentClick,
                 onAppointmentDoubleClick: handleAppointmentDoubleClick,
                 onDateClick: handleDateClick,
-                onViewChange: handleViewChange,
                 onAppointmentDelete: handleAppointmentDelete,
               }}
               className="bg-white rounded-lg shadow-sm"
@@ -251,6 +256,8 @@ function MedicalCalendarExample() {
           <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
             <AppointmentForm
               appointment={selectedAppointment}
+              appointments={appointments}
+              businessHours={{ start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] }}
               onSubmit={handleAppointmentSubmit}
               onCancel={() => {
                 setShowForm(false);
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { format, addHours, addMinutes } from 'date-fns';
+import type { Locale } from 'date-fns';
 import { 
   AppointmentFormData, 
   AppointmentStatus, 
@@ -8,10 +9,31 @@ import {
   Appointment,
   AppointmentEnumConfig,
   UserRole,
+  PolicyUser,
+  PolicyRule,
+  AppointmentAction,
+  AppointmentChange,
+  AppointmentChangeSource,
+  CalendarConfig,
+  CalendarMessages,
+  ClinicClosure,
+  ConflictType,
+  ProviderSchedule,
+  RecurrenceEditScope,
   getConfigurableOptions,
   canModifyStatus
 } from '../types';
 import { cn, getInputClasses, getButtonClasses } from '../utils/classNames';
+import { validateAppointmentFormData } from '../utils/validation';
+import { formatDateInTimeZone, fromZonedDate } from '../utils/dateUtils';
+import { getMessages, formatMessage } from '../utils/messages';
+import { parseRRule, formatRRule } from '../utils/recurrenceUtils';
+import { detectConflicts, getBlockingConflicts } from '../utils/conflictUtils';
+import { findAvailableSlots } from '../utils/availabilityUtils';
+import { findProviderSchedule } from '../utils/scheduleUtils';
+import { canTransition, getAllowedStatuses, getRequiredTransitionFields } from '../utils/statusUtils';
+import { createPermissionCheck, maskAppointment } from '../utils/policyUtils';
+import { diffAppointments } from '../utils/auditUtils';
 
 /**
  * Props for the AppointmentForm component
@@ -30,8 +52,31 @@ export interface AppointmentFormProps {
   moderationEnabled?: boolean;
   currentUserRole?: UserRole;
   allowStatusChange?: boolean;
+  // Access policy; fields and statuses the current user may not change are disabled
+  currentUser?: PolicyUser;
+  policy?: PolicyRule[];
+  // IANA time zone for the date/time inputs (browser zone when omitted)
+  timezone?: string;
+  // Localization (English when omitted)
+  locale?: Locale;
+  messages?: Partial<CalendarMessages>;
+  // Existing appointments checked for double bookings
+  appointments?: Appointment[];
+  blockingConflicts?: ConflictType[]; // Conflict kinds that block saving (others are warnings)
+  // Business hours searched by the available time picker (picker hidden when omitted)
+  businessHours?: CalendarConfig['businessHours'];
+  // Provider working hours; times outside the doctor's schedule cannot be saved
+  schedules?: ProviderSchedule[];
+  // Clinic closures; times inside them cannot be saved
+  closures?: ClinicClosure[];
+  // Audit records for edits of `appointment`; a reason for the change is asked for when given
+  onAppointmentChanges?: (changes: AppointmentChange[]) => void;
 }
 
+// Days ahead searched by the available time picker, and the number of times it offers
+const AVAILABILITY_SEARCH_DAYS = 14;
+const MAX_SUGGESTED_SLOTS = 12;
+
 /**
  * AppointmentForm component for creating and editing appointments
  */
@@ -48,14 +93,45 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
   moderationEnabled = false,
   currentUserRole,
   allowStatusChange = true,
+  currentUser,
+  policy,
+  timezone,
+  locale,
+  messages: messageOverrides,
+  appointments = [],
+  blockingConflicts = [],
+  businessHours,
+  schedules = [],
+  closures = [],
+  onAppointmentChanges,
 }) => {
+  const messages = getMessages(locale, messageOverrides);
+
   // Get configurable options
   const statusOptions = getConfigurableOptions(enumConfig, 'statuses');
   const priorityOptions = getConfigurableOptions(enumConfig, 'priorities');
   const typeOptions = getConfigurableOptions(enumConfig, 'types');
   
-  // Check if user can modify status
-  const canModifyAppointmentStatus = canModifyStatus(currentUserRole, moderationEnabled) && allowStatusChange;
+  // Access policy for the current user (no restrictions without a user).
+  // New appointments need CREATE; existing ones are checked field by field.
+  const isAllowed = createPermissionCheck(currentUser, policy);
+  const canEditField = (field: keyof AppointmentFormData) => appointment
+    ? isAllowed(AppointmentAction.EDIT, appointment, field)
+    : isAllowed(AppointmentAction.CREATE);
+  const isFieldLocked = (field: keyof AppointmentFormData) => loading || !canEditField(field);
+  // Fields the user may not see are hidden; their values are still submitted unchanged
+  const canViewField = (field: keyof AppointmentFormData) => isAllowed(AppointmentAction.VIEW, appointment || undefined, field);
+  const canChangeStatus = appointment
+    ? isAllowed(AppointmentAction.CHANGE_STATUS, appointment)
+    : isAllowed(AppointmentAction.CREATE);
+  const canCancel = !!appointment && isAllowed(AppointmentAction.CANCEL, appointment);
+  const canModerate = isAllowed(AppointmentAction.MODERATE, appointment || undefined);
+
+  // Check if user can modify status: the access policy decides when there is a
+  // current user; the deprecated role check only applies without one
+  const canModifyAppointmentStatus = allowStatusChange && (currentUser
+    ? canChangeStatus || canCancel
+    : canModifyStatus(currentUserRole, moderationEnabled));
 
   const [formData, setFormData] = useState<AppointmentFormData>({
     title: '',
@@ -80,6 +156,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
     diagnosis: '',
     prescription: [],
     notes: '',
+    cancellationReason: '',
     followUpRequired: false,
     followUpDate: '',
     insuranceProvider: '',
@@ -89,11 +166,84 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [changeReason, setChangeReason] = useState('');
+
+  // Status workflow: an existing appointment can only move along the configured
+  // transitions, some of which require extra fields
+  const originalStatus = appointment?.status;
+  const statusValues = statusOptions.map(option => option.value);
+  const transitionOptions = { userRole: currentUserRole, appointment: formData };
+  const allowedStatuses = (originalStatus
+    ? getAllowedStatuses(enumConfig, statusValues, originalStatus, transitionOptions)
+    : statusValues
+  ).filter(status => canChangeStatus || status === originalStatus || status === AppointmentStatus.CANCELLED);
+  const requiredTransitionFields = originalStatus
+    ? getRequiredTransitionFields(enumConfig, originalStatus, formData.status, transitionOptions)
+    : [];
+
+  // Zone for conflict, availability and schedule checks (browser zone when no timezone is given)
+  const checkTimeZone = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // Double bookings of the provider, patient or location at the entered time
+  const conflicts = useMemo(() => {
+    if (!formData.startTime || !formData.endTime) return [];
+    return detectConflicts(appointments, { ...appointment, ...formData }, checkTimeZone);
+  }, [appointments, appointment, formData, checkTimeZone]);
+  const blockingConflictList = getBlockingConflicts(conflicts, blockingConflicts);
+
+  // Working schedule of the entered doctor
+  const providerSchedule = findProviderSchedule(schedules, {
+    doctorId: appointment?.doctorId,
+    doctorName: formData.doctorName,
+  });
+
+  // Free times for the entered duration and provider, from now on
+  const [showSlotPicker, setShowSlotPicker] = useState(false);
+  const availableSlots = useMemo(() => {
+    if (!showSlotPicker || !businessHours) return [];
+
+    const start = new Date(formData.startTime);
+    const end = new Date(formData.endTime);
+    const durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000) || 60;
+    const rangeStart = new Date();
+
+    return findAvailableSlots(
+      appointments.filter(apt => !appointment || apt.id !== appointment.id),
+      {
+        businessHours,
+        durationMinutes,
+        rangeStart,
+        rangeEnd: addHours(rangeStart, AVAILABILITY_SEARCH_DAYS * 24),
+        doctorId: appointment?.doctorId,
+        doctorName: formData.doctorName,
+        schedule: providerSchedule,
+        closures,
+        timeZone: checkTimeZone,
+        maxSlots: MAX_SUGGESTED_SLOTS,
+      }
+    );
+  }, [showSlotPicker, businessHours, appointments, appointment, formData.startTime, formData.endTime, formData.doctorName, providerSchedule, closures, checkTimeZone]);
+
+  // Convert between ISO strings and datetime-local input values in the form's time zone
+  const toInputValue = (isoString: string) => {
+    const date = new Date(isoString);
+    if (isNaN(date.getTime())) return '';
+    return timezone
+      ? formatDateInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm")
+      : format(date, "yyyy-MM-dd'T'HH:mm");
+  };
+
+  const fromInputValue = useCallback((value: string) => {
+    return timezone ? fromZonedDate(value, timezone) : new Date(value);
+  }, [timezone]);
+
+  // Form data the appointment was loaded as, the baseline for audit records
+  const initialFormDataRef = useRef<AppointmentFormData | null>(null);
 
   // Initialize form data
   useEffect(() => {
     if (appointment) {
-      setFormData({
+      const initialFormData: AppointmentFormData = {
         title: appointment.title,
         description: appointment.description || '',
         startTime: appointment.startTime,
@@ -116,22 +266,23 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
         diagnosis: appointment.diagnosis || '',
         prescription: appointment.prescription || [],
         notes: appointment.notes || '',
+        cancellationReason: appointment.cancellationReason || '',
         followUpRequired: appointment.followUpRequired || false,
         followUpDate: appointment.followUpDate || '',
         insuranceProvider: appointment.insuranceProvider || '',
         insuranceNumber: appointment.insuranceNumber || '',
         copay: appointment.copay || 0,
+        recurrence: appointment.recurrence,
+        recurrenceEditScope: appointment.recurringAppointmentId ? RecurrenceEditScope.THIS : undefined,
         metadata: appointment.metadata || {},
-      });
+      };
+      initialFormDataRef.current = initialFormData;
+      setFormData(initialFormData);
     } else {
-      // Set default times based on provided defaults
-      const startDateTime = new Date(defaultDate);
-      const [startHour, startMinute] = defaultStartTime.split(':').map(Number);
-      startDateTime.setHours(startHour, startMinute, 0, 0);
-
-      const endDateTime = new Date(defaultDate);
-      const [endHour, endMinute] = defaultEndTime.split(':').map(Number);
-      endDateTime.setHours(endHour, endMinute, 0, 0);
+      // Set default times based on provided defaults, read in the form's time zone
+      const defaultDay = format(defaultDate, 'yyyy-MM-dd');
+      const startDateTime = fromInputValue(`${defaultDay}T${defaultStartTime}`);
+      const endDateTime = fromInputValue(`${defaultDay}T${defaultEndTime}`);
 
       setFormData(prev => ({
         ...prev,
@@ -139,7 +290,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
         endTime: endDateTime.toISOString(),
       }));
     }
-  }, [appointment, defaultDate, defaultStartTime, defaultEndTime]);
+  }, [appointment, defaultDate, defaultStartTime, defaultEndTime, fromInputValue]);
 
   // Handle input changes
   const handleInputChange = (field: keyof AppointmentFormData, value: string | AppointmentStatus | AppointmentPriority | AppointmentType | boolean | string[]) => {
@@ -159,7 +310,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
 
   // Handle datetime input changes
   const handleDateTimeChange = (field: 'startTime' | 'endTime', value: string) => {
-    const date = new Date(value);
+    const date = fromInputValue(value);
     if (isNaN(date.getTime())) return;
     
     setFormData(prev => ({
@@ -169,7 +320,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
     
     // Auto-adjust end time if it's before start time
     if (field === 'startTime') {
-      const startDate = new Date(value);
+      const startDate = date;
       const endDate = new Date(formData.endTime);
       
       if (endDate <= startDate) {
@@ -192,41 +343,33 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
 
   // Validate form
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
+    const newErrors = validateAppointmentFormData(formData, {
+      messages,
+      closures,
+      providerSchedule,
+      timeZone: checkTimeZone,
+      blockingConflicts: blockingConflictList,
+    });
 
-    if (!formData.title.trim()) {
-      newErrors.title = 'Title is required';
-    }
+    if (originalStatus && formData.status !== originalStatus) {
+      const statusLabel = (value: string) => statusOptions.find(option => option.value === value)?.label || value;
 
-    if (!formData.startTime) {
-      newErrors.startTime = 'Start time is required';
-    }
-
-    if (!formData.endTime) {
-      newErrors.endTime = 'End time is required';
-    }
-
-    if (formData.startTime && formData.endTime) {
-      const startDate = new Date(formData.startTime);
-      const endDate = new Date(formData.endTime);
-      
-      if (endDate <= startDate) {
-        newErrors.endTime = 'End time must be after start time';
+      if (!allowedStatuses.includes(formData.status)) {
+        newErrors.status = formatMessage(messages.statusTransitionNotAllowed, {
+          from: statusLabel(originalStatus),
+          to: statusLabel(formData.status),
+        });
+      } else if (!canTransition(enumConfig, originalStatus, formData.status, transitionOptions)) {
+        newErrors.status = messages.statusFieldsRequired;
+        requiredTransitionFields.forEach(field => {
+          const value = formData[field];
+          if (!value || (Array.isArray(value) && value.length === 0) || (typeof value === 'string' && !value.trim())) {
+            newErrors[field] = newErrors[field] || messages.requiredForStatusChange;
+          }
+        });
       }
     }
 
-    if (formData.patientEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.patientEmail)) {
-      newErrors.patientEmail = 'Please enter a valid email address';
-    }
-
-    if (formData.patientPhone && !/^[\+]?[1-9][\d]{0,15}$/.test(formData.patientPhone.replace(/[\s\-\(\)]/g, ''))) {
-      newErrors.patientPhone = 'Please enter a valid phone number';
-    }
-
-    if (formData.isOnlineAppointment && !formData.meetingLink) {
-      newErrors.meetingLink = 'Meeting link is required for online appointments';
-    }
-
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -239,17 +382,76 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
       return;
     }
 
+    // Fields are compared as loaded into the form, so its defaults are not reported as changes
+    if (appointment && onAppointmentChanges) {
+      const before: Appointment & Partial<AppointmentFormData> = { ...appointment, ...initialFormDataRef.current };
+      const after: Appointment & Partial<AppointmentFormData> = { ...appointment, ...formData };
+      delete before.recurrenceEditScope;
+      delete after.recurrenceEditScope;
+      const changes = diffAppointments(before, after, {
+        source: AppointmentChangeSource.FORM,
+        actor: currentUser?.userId,
+        reason: changeReason.trim(),
+      });
+      if (changes.length > 0) onAppointmentChanges(changes);
+    }
+
     onSubmit(formData);
   };
 
   // Quick time presets
   const timePresets = [
-    { label: '1 hour', hours: 1 },
-    { label: '2 hours', hours: 2 },
-    { label: '30 minutes', minutes: 30 },
-    { label: '1.5 hours', hours: 1, minutes: 30 },
+    { label: messages.presetOneHour, hours: 1 },
+    { label: messages.presetTwoHours, hours: 2 },
+    { label: messages.presetThirtyMinutes, minutes: 30 },
+    { label: messages.presetNinetyMinutes, hours: 1, minutes: 30 },
+  ];
+
+  // Repeat presets; other rules are shown as a custom option
+  const recurrencePresets = [
+    { rrule: 'FREQ=DAILY', label: messages.repeatDaily },
+    { rrule: 'FREQ=WEEKLY', label: messages.repeatWeekly },
+    { rrule: 'FREQ=WEEKLY;INTERVAL=2', label: messages.repeatBiweekly },
+    { rrule: 'FREQ=MONTHLY', label: messages.repeatMonthly },
   ];
 
+  // The recurrence rule is edited as a repeat rule plus an optional occurrence count
+  const recurrenceRule = formData.recurrence ? parseRRule(formData.recurrence.rrule, timezone) : null;
+  const repeatRule = recurrenceRule ? formatRRule({ ...recurrenceRule, count: undefined }) : '';
+  const isCustomRepeatRule = !!repeatRule && !recurrencePresets.some(preset => preset.rrule === repeatRule);
+
+  const handleRecurrenceChange = (rrule: string, count?: number) => {
+    setFormData(prev => ({
+      ...prev,
+      recurrence: rrule
+        ? { ...prev.recurrence, rrule: count && count > 0 ? `${rrule};COUNT=${count}` : rrule }
+        : undefined,
+    }));
+  };
+
+  const conflictMessages: Record<ConflictType, string> = {
+    [ConflictType.PROVIDER]: messages.conflictProvider,
+    [ConflictType.PATIENT]: messages.conflictPatient,
+    [ConflictType.LOCATION]: messages.conflictLocation,
+  };
+
+  // Format a date for display in the form's time zone
+  const formatDisplayDate = (date: Date, formatString: string) => {
+    return timezone
+      ? formatDateInTimeZone(date, timezone, formatString, locale)
+      : format(date, formatString, { locale });
+  };
+
+  const applyAvailableSlot = (start: Date, end: Date) => {
+    setFormData(prev => ({
+      ...prev,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+    }));
+    setErrors(prev => ({ ...prev, startTime: '', endTime: '' }));
+    setShowSlotPicker(false);
+  };
+
   const applyTimePreset = (preset: typeof timePresets[0]) => {
     const startDate = new Date(formData.startTime);
     let endDate = new Date(startDate);
@@ -272,7 +474,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
       <div className="bg-white rounded-lg shadow-sm border">
         <div className="px-6 py-4 border-b border-gray-200">
           <h3 className="text-lg font-semibold text-gray-900">
-            {appointment ? 'Edit Appointment' : 'Create New Appointment'}
+            {appointment ? messages.editAppointmentTitle : messages.createAppointmentTitle}
           </h3>
         </div>
         
@@ -281,7 +483,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="md:col-span-2">
               <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">
-                Title *
+                {messages.title} *
               </label>
               <input
                 type="text"
@@ -289,8 +491,8 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                 value={formData.title}
                 onChange={(e) => handleInputChange('title', e.target.value)}
                 className={getInputClasses(!!errors.title)}
-                placeholder="Enter appointment title"
-                disabled={loading}
+                placeholder={messages.titlePlaceholder}
+                disabled={isFieldLocked('title')}
               />
               {errors.title && (
                 <p className="mt-1 text-sm text-red-600">{errors.title}</p>
@@ -299,16 +501,16 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
             
             <div className="md:col-span-2">
               <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
-                Description
+                {messages.description}
               </label>
               <textarea
                 id="description"
                 value={formData.description}
                 onChange={(e) => handleInputChange('description', e.target.value)}
                 className={getInputClasses(!!errors.description)}
-                placeholder="Enter appointment description"
+                placeholder={messages.descriptionPlaceholder}
                 rows={3}
-                disabled={loading}
+                disabled={isFieldLocked('description')}
               />
             </div>
           </div>
@@ -317,15 +519,15 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <label htmlFor="startTime" className="block text-sm font-medium text-gray-700 mb-1">
-                Start Time *
+                {messages.startTime} *
               </label>
               <input
                 type="datetime-local"
                 id="startTime"
-                value={formData.startTime ? format(new Date(formData.startTime), "yyyy-MM-dd'T'HH:mm") : ''}
+                value={formData.startTime ? toInputValue(formData.startTime) : ''}
                 onChange={(e) => handleDateTimeChange('startTime', e.target.value)}
                 className={getInputClasses(!!errors.startTime)}
-                disabled={loading}
+                disabled={isFieldLocked('startTime')}
               />
               {errors.startTime && (
                 <p className="mt-1 text-sm text-red-600">{errors.startTime}</p>
@@ -334,16 +536,16 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
             
             <div>
               <label htmlFor="endTime" className="block text-sm font-medium text-gray-700 mb-1">
-                End Time *
+                {messages.endTime} *
               </label>
               <div className="space-y-2">
                 <input
                   type="datetime-local"
                   id="endTime"
-                  value={formData.endTime ? format(new Date(formData.endTime), "yyyy-MM-dd'T'HH:mm") : ''}
+                  value={formData.endTime ? toInputValue(formData.endTime) : ''}
                   onChange={(e) => handleDateTimeChange('endTime', e.target.value)}
                   className={getInputClasses(!!errors.endTime)}
-                  disabled={loading}
+                  disabled={isFieldLocked('endTime')}
                 />
                 {errors.endTime && (
                   <p className="mt-1 text-sm text-red-600">{errors.endTime}</p>
@@ -357,7 +559,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                       type="button"
                       onClick={() => applyTimePreset(preset)}
                       className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
-                      disabled={loading}
+                      disabled={isFieldLocked('startTime')}
                     >
                       {preset.label}
                     </button>
@@ -367,11 +569,120 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
             </div>
           </div>
 
+          {/* Available time picker */}
+          {businessHours && (
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowSlotPicker(prev => !prev)}
+                className="text-sm text-blue-600 hover:underline"
+                disabled={isFieldLocked('startTime')}
+              >
+                {messages.findAvailableSlots}
+              </button>
+              {showSlotPicker && (
+                availableSlots.length > 0 ? (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {availableSlots.map((slot) => (
+                      <button
+                        key={slot.start.toISOString()}
+                        type="button"
+                        onClick={() => applyAvailableSlot(slot.start, slot.end)}
+                        className="text-xs px-2 py-1 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 transition-colors"
+                        disabled={isFieldLocked('startTime')}
+                      >
+                        {formatDisplayDate(slot.start, 'EEE MMM dd, p')}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="mt-2 text-sm text-gray-500">
+                    {formatMessage(messages.noAvailableSlots, { days: AVAILABILITY_SEARCH_DAYS })}
+                  </p>
+                )
+              )}
+            </div>
+          )}
+
+          {/* Recurrence */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="recurrence" className="block text-sm font-medium text-gray-700 mb-1">
+                {messages.repeats}
+              </label>
+              <select
+                id="recurrence"
+                value={repeatRule}
+                onChange={(e) => handleRecurrenceChange(e.target.value, recurrenceRule?.count)}
+                className={getInputClasses()}
+                disabled={isFieldLocked('recurrence')}
+              >
+                <option value="">{messages.repeatNone}</option>
+                {recurrencePresets.map((preset) => (
+                  <option key={preset.rrule} value={preset.rrule}>
+                    {preset.label}
+                  </option>
+                ))}
+                {isCustomRepeatRule && (
+                  <option value={repeatRule}>
+                    {formatMessage(messages.repeatCustom, { rule: repeatRule })}
+                  </option>
+                )}
+              </select>
+            </div>
+
+            {repeatRule && (
+              <div>
+                <label htmlFor="occurrenceCount" className="block text-sm font-medium text-gray-700 mb-1">
+                  {messages.occurrenceCount}
+                </label>
+                <input
+                  type="number"
+                  id="occurrenceCount"
+                  min={1}
+                  value={recurrenceRule?.count ?? ''}
+                  onChange={(e) => handleRecurrenceChange(repeatRule, parseInt(e.target.value, 10))}
+                  className={getInputClasses()}
+                  placeholder={messages.occurrenceCountPlaceholder}
+                  disabled={isFieldLocked('recurrence')}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Edit scope for an occurrence of a recurring appointment */}
+          {appointment?.recurringAppointmentId && (
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">
+                {messages.applyChangesTo}
+              </legend>
+              <div className="flex flex-wrap gap-4">
+                {[
+                  { scope: RecurrenceEditScope.THIS, label: messages.editScopeThis },
+                  { scope: RecurrenceEditScope.FOLLOWING, label: messages.editScopeFollowing },
+                  { scope: RecurrenceEditScope.ALL, label: messages.editScopeAll },
+                ].map((option) => (
+                  <label key={option.scope} className="flex items-center">
+                    <input
+                      type="radio"
+                      name="recurrenceEditScope"
+                      checked={formData.recurrenceEditScope === option.scope}
+                      onChange={() => setFormData(prev => ({ ...prev, recurrenceEditScope: option.scope }))}
+                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                      disabled={loading}
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
           {/* Status, Priority and Type */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div>
               <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
-                Status
+                {messages.status}
               </label>
               <select
                 id="status"
@@ -384,29 +695,32 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   <option 
                     key={option.value} 
                     value={option.value}
-                    disabled={option.disabled}
+                    disabled={option.disabled || !allowedStatuses.includes(option.value)}
                   >
                     {option.label}
                   </option>
                 ))}
               </select>
+              {errors.status && (
+                <p className="mt-1 text-sm text-red-600">{errors.status}</p>
+              )}
               {moderationEnabled && !canModifyAppointmentStatus && (
                 <p className="mt-1 text-xs text-gray-500">
-                  Only moderators can change appointment status
+                  {messages.statusModeratorsOnly}
                 </p>
               )}
             </div>
             
             <div>
               <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-1">
-                Priority
+                {messages.priority}
               </label>
               <select
                 id="priority"
                 value={formData.priority}
                 onChange={(e) => handleInputChange('priority', e.target.value)}
                 className={getInputClasses()}
-                disabled={loading}
+                disabled={isFieldLocked('priority')}
               >
                 {priorityOptions.map((option) => (
                   <option 
@@ -422,14 +736,14 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
             
             <div>
               <label htmlFor="type" className="block text-sm font-medium text-gray-700 mb-1">
-                Appointment Type
+                {messages.appointmentType}
               </label>
               <select
                 id="type"
                 value={formData.type}
                 onChange={(e) => handleInputChange('type', e.target.value)}
                 className={getInputClasses()}
-                disabled={loading}
+                disabled={isFieldLocked('type')}
               >
                 {typeOptions.map((option) => (
                   <option 
@@ -444,13 +758,34 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
             </div>
           </div>
 
+          {/* Cancellation reason */}
+          {(formData.status === AppointmentStatus.CANCELLED || requiredTransitionFields.includes('cancellationReason')) && (
+            <div>
+              <label htmlFor="cancellationReason" className="block text-sm font-medium text-gray-700 mb-1">
+                {messages.cancellationReason}{requiredTransitionFields.includes('cancellationReason') && ' *'}
+              </label>
+              <textarea
+                id="cancellationReason"
+                value={formData.cancellationReason || ''}
+                onChange={(e) => handleInputChange('cancellationReason', e.target.value)}
+                className={getInputClasses(!!errors.cancellationReason)}
+                placeholder={messages.cancellationReasonPlaceholder}
+                rows={2}
+                disabled={loading || !(canEditField('cancellationReason') || canCancel)}
+              />
+              {errors.cancellationReason && (
+                <p className="mt-1 text-sm text-red-600">{errors.cancellationReason}</p>
+              )}
+            </div>
+          )}
+
           {/* Patient Information */}
           <div className="border-t pt-6">
-            <h4 className="text-md font-medium text-gray-900 mb-4">Patient Information</h4>
+            <h4 className="text-md font-medium text-gray-900 mb-4">{messages.patientInformation}</h4>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
                 <label htmlFor="patientName" className="block text-sm font-medium text-gray-700 mb-1">
-                  Patient Name
+                  {messages.patientName}
                 </label>
                 <input
                   type="text"
@@ -458,14 +793,14 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   value={formData.patientName}
                   onChange={(e) => handleInputChange('patientName', e.target.value)}
                   className={getInputClasses()}
-                  placeholder="Enter patient name"
-                  disabled={loading}
+                  placeholder={messages.patientNamePlaceholder}
+                  disabled={isFieldLocked('patientName')}
                 />
               </div>
               
               <div>
                 <label htmlFor="patientEmail" className="block text-sm font-medium text-gray-700 mb-1">
-                  Patient Email
+                  {messages.patientEmail}
                 </label>
                 <input
                   type="email"
@@ -473,8 +808,8 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   value={formData.patientEmail}
                   onChange={(e) => handleInputChange('patientEmail', e.target.value)}
                   className={getInputClasses(!!errors.patientEmail)}
-                  placeholder="Enter patient email"
-                  disabled={loading}
+                  placeholder={messages.patientEmailPlaceholder}
+                  disabled={isFieldLocked('patientEmail')}
                 />
                 {errors.patientEmail && (
                   <p className="mt-1 text-sm text-red-600">{errors.patientEmail}</p>
@@ -483,7 +818,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
               
               <div>
                 <label htmlFor="patientPhone" className="block text-sm font-medium text-gray-700 mb-1">
-                  Patient Phone
+                  {messages.patientPhone}
                 </label>
                 <input
                   type="tel"
@@ -491,8 +826,8 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   value={formData.patientPhone}
                   onChange={(e) => handleInputChange('patientPhone', e.target.value)}
                   className={getInputClasses(!!errors.patientPhone)}
-                  placeholder="Enter patient phone"
-                  disabled={loading}
+                  placeholder={messages.patientPhonePlaceholder}
+                  disabled={isFieldLocked('patientPhone')}
                 />
                 {errors.patientPhone && (
                   <p className="mt-1 text-sm text-red-600">{errors.patientPhone}</p>
@@ -501,7 +836,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
               
               <div>
                 <label htmlFor="patientDateOfBirth" className="block text-sm font-medium text-gray-700 mb-1">
-                  Date of Birth
+                  {messages.dateOfBirth}
                 </label>
                 <input
                   type="date"
@@ -509,25 +844,25 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   value={formData.patientDateOfBirth}
                   onChange={(e) => handleInputChange('patientDateOfBirth', e.target.value)}
                   className={getInputClasses()}
-                  disabled={loading}
+                  disabled={isFieldLocked('patientDateOfBirth')}
                 />
               </div>
               
               <div>
                 <label htmlFor="patientGender" className="block text-sm font-medium text-gray-700 mb-1">
-                  Gender
+                  {messages.gender}
                 </label>
                 <select
                   id="patientGender"
                   value={formData.patientGender}
                   onChange={(e) => handleInputChange('patientGender', e.target.value as any)}
                   className={getInputClasses()}
-                  disabled={loading}
+                  disabled={isFieldLocked('patientGender')}
                 >
-                  <option value="prefer_not_to_say">Prefer not to say</option>
-                  <option value="male">Male</option>
-                  <option value="female">Female</option>
-                  <option value="other">Other</option>
+                  <option value="prefer_not_to_say">{messages.genderPreferNotToSay}</option>
+                  <option value="male">{messages.genderMale}</option>
+                  <option value="female">{messages.genderFemale}</option>
+                  <option value="other">{messages.genderOther}</option>
                 </select>
               </div>
             </div>
@@ -535,11 +870,11 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
 
           {/* Medical Information */}
           <div className="border-t pt-6">
-            <h4 className="text-md font-medium text-gray-900 mb-4">Medical Information</h4>
+            <h4 className="text-md font-medium text-gray-900 mb-4">{messages.medicalInformation}</h4>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
                 <label htmlFor="doctorName" className="block text-sm font-medium text-gray-700 mb-1">
-                  Doctor Name
+                  {messages.doctorName}
                 </label>
                 <input
                   type="text"
@@ -547,14 +882,14 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   value={formData.doctorName}
                   onChange={(e) => handleInputChange('doctorName', e.target.value)}
                   className={getInputClasses()}
-                  placeholder="Enter doctor name"
-                  disabled={loading}
+                  placeholder={messages.doctorNamePlaceholder}
+                  disabled={isFieldLocked('doctorName')}
                 />
               </div>
               
               <div>
                 <label htmlFor="doctorSpecialty" className="block text-sm font-medium text-gray-700 mb-1">
-                  Doctor Specialty
+                  {messages.doctorSpecialty}
                 </label>
                 <input
                   type="text"
@@ -562,14 +897,14 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   value={formData.doctorSpecialty}
                   onChange={(e) => handleInputChange('doctorSpecialty', e.target.value)}
                   className={getInputClasses()}
-                  placeholder="Enter doctor specialty"
-                  disabled={loading}
+                  placeholder={messages.doctorSpecialtyPlaceholder}
+                  disabled={isFieldLocked('doctorSpecialty')}
                 />
               </div>
               
               <div>
                 <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-1">
-                  Location
+                  {messages.location}
                 </label>
                 <input
                   type="text"
@@ -577,8 +912,8 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   value={formData.location}
                   onChange={(e) => handleInputChange('location', e.target.value)}
                   className={getInputClasses()}
-                  placeholder="Enter appointment location"
-                  disabled={loading}
+                  placeholder={messages.locationPlaceholder}
+                  disabled={isFieldLocked('location')}
                 />
               </div>
               
@@ -589,9 +924,9 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                     checked={formData.isOnlineAppointment}
                     onChange={(e) => handleInputChange('isOnlineAppointment', e.target.checked)}
                     className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    disabled={loading}
+                    disabled={isFieldLocked('isOnlineAppointment')}
                   />
-                  <span className="ml-2 text-sm text-gray-700">Online Appointment</span>
+                  <span className="ml-2 text-sm text-gray-700">{messages.onlineAppointment}</span>
                 </label>
               </div>
               
@@ -599,7 +934,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                 <>
                   <div>
                     <label htmlFor="meetingLink" className="block text-sm font-medium text-gray-700 mb-1">
-                      Meeting Link
+                      {messages.meetingLink}
                     </label>
                     <input
                       type="url"
@@ -608,7 +943,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                       onChange={(e) => handleInputChange('meetingLink', e.target.value)}
                       className={getInputClasses(!!errors.meetingLink)}
                       placeholder="https://meet.example.com/room-123"
-                      disabled={loading}
+                      disabled={isFieldLocked('meetingLink')}
                     />
                     {errors.meetingLink && (
                       <p className="mt-1 text-sm text-red-600">{errors.meetingLink}</p>
@@ -617,7 +952,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                   
                   <div>
                     <label htmlFor="meetingPassword" className="block text-sm font-medium text-gray-700 mb-1">
-                      Meeting Password
+                      {messages.meetingPassword}
                     </label>
                     <input
                       type="text"
@@ -625,8 +960,8 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
                       value={formData.meetingPassword}
                       onChange={(e) => handleInputChange('meetingPassword', e.target.value)}
                       className={getInputClasses()}
-                      placeholder="Enter meeting password"
-                      disabled={loading}
+                      placeholder={messages.meetingPasswordPlaceholder}
+                      disabled={isFieldLocked('meetingPassword')}
                     />
                   </div>
                 </>
@@ -636,93 +971,106 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
 
           {/* Additional Information */}
           <div className="border-t pt-6">
-            <h4 className="text-md font-medium text-gray-900 mb-4">Additional Information</h4>
+            <h4 className="text-md font-medium text-gray-900 mb-4">{messages.additionalInformation}</h4>
             <div className="space-y-6">
-              <div>
-                <label htmlFor="symptoms" className="block text-sm font-medium text-gray-700 mb-1">
-                  Symptoms
-                </label>
-                <input
-                  type="text"
-                  id="symptoms"
-                  value={formData.symptoms?.join(', ') || ''}
-                  onChange={(e) => handleInputChange('symptoms', e.target.value.split(',').map(s => s.trim()).filter(s => s))}
-                  className={getInputClasses()}
-                  placeholder="Enter symptoms separated by commas"
-                  disabled={loading}
-                />
-              </div>
-              
-              <div>
-                <label htmlFor="diagnosis" className="block text-sm font-medium text-gray-700 mb-1">
-                  Diagnosis
-                </label>
-                <input
-                  type="text"
-                  id="diagnosis"
-                  value={formData.diagnosis}
-                  onChange={(e) => handleInputChange('diagnosis', e.target.value)}
-                  className={getInputClasses()}
-                  placeholder="Enter diagnosis"
-                  disabled={loading}
-                />
-              </div>
-              
-              <div>
-                <label htmlFor="prescription" className="block text-sm font-medium text-gray-700 mb-1">
-                  Prescription
-                </label>
-                <input
-                  type="text"
-                  id="prescription"
-                  value={formData.prescription?.join(', ') || ''}
-                  onChange={(e) => handleInputChange('prescription', e.target.value.split(',').map(s => s.trim()).filter(s => s))}
-                  className={getInputClasses()}
-                  placeholder="Enter prescriptions separated by commas"
-                  disabled={loading}
-                />
-              </div>
+              {canViewField('symptoms') && (
+                <div>
+                  <label htmlFor="symptoms" className="block text-sm font-medium text-gray-700 mb-1">
+                    {messages.symptoms}
+                  </label>
+                  <input
+                    type="text"
+                    id="symptoms"
+                    value={formData.symptoms?.join(', ') || ''}
+                    onChange={(e) => handleInputChange('symptoms', e.target.value.split(',').map(s => s.trim()).filter(s => s))}
+                    className={getInputClasses()}
+                    placeholder={messages.symptomsPlaceholder}
+                    disabled={isFieldLocked('symptoms')}
+                  />
+                </div>
+              )}
               
-              <div>
-                <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
-                  Notes
-                </label>
-                <textarea
-                  id="notes"
-                  value={formData.notes}
-                  onChange={(e) => handleInputChange('notes', e.target.value)}
-                  className={getInputClasses()}
-                  placeholder="Enter any additional notes"
-                  rows={3}
-                  disabled={loading}
-                />
-              </div>
+              {canViewField('diagnosis') && (
+                <div>
+                  <label htmlFor="diagnosis" className="block text-sm font-medium text-gray-700 mb-1">
+                    {messages.diagnosis}
+                  </label>
+                  <input
+                    type="text"
+                    id="diagnosis"
+                    value={formData.diagnosis}
+                    onChange={(e) => handleInputChange('diagnosis', e.target.value)}
+                    className={getInputClasses()}
+                    placeholder={messages.diagnosisPlaceholder}
+                    disabled={isFieldLocked('diagnosis')}
+                  />
+                </div>
+              )}
               
-              <div className="flex items-center space-x-4">
-                <label className="flex items-center">
+              {canViewField('prescription') && (
+                <div>
+                  <label htmlFor="prescription" className="block text-sm font-medium text-gray-700 mb-1">
+                    {messages.prescription}
+                  </label>
                   <input
-                    type="checkbox"
-                    checked={formData.followUpRequired}
-                    onChange={(e) => handleInputChange('followUpRequired', e.target.checked)}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    disabled={loading}
+                    type="text"
+                    id="prescription"
+                    value={formData.prescription?.join(', ') || ''}
+                    onChange={(e) => handleInputChange('prescription', e.target.value.split(',').map(s => s.trim()).filter(s => s))}
+                    className={getInputClasses()}
+                    placeholder={messages.prescriptionPlaceholder}
+                    disabled={isFieldLocked('prescription')}
                   />
-                  <span className="ml-2 text-sm text-gray-700">Follow-up Required</span>
-                </label>
-              </div>
+                </div>
+              )}
+              
+              {canViewField('notes') && (
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+                    {messages.notes}
+                  </label>
+                  <textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => handleInputChange('notes', e.target.value)}
+                    className={getInputClasses()}
+                    placeholder={messages.notesPlaceholder}
+                    rows={3}
+                    disabled={isFieldLocked('notes')}
+                  />
+                </div>
+              )}
               
-              {formData.followUpRequired && (
+              {canViewField('followUpRequired') && (
+                <div className="flex items-center space-x-4">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={formData.followUpRequired}
+                      onChange={(e) => handleInputChange('followUpRequired', e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      disabled={isFieldLocked('followUpRequired')}
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{messages.followUpRequired}</span>
+                  </label>
+                </div>
+              )}
+              
+              {formData.followUpRequired && canViewField('followUpDate') && (
                 <div>
                   <label htmlFor="followUpDate" className="block text-sm font-medium text-gray-700 mb-1">
-                    Follow-up Date
+                    {messages.followUpDate}
                   </label>
                   <input
                     type="datetime-local"
                     id="followUpDate"
-                    value={formData.followUpDate ? format(new Date(formData.followUpDate), "yyyy-MM-dd'T'HH:mm") : ''}
-                    onChange={(e) => handleInputChange('followUpDate', e.target.value)}
+                    value={formData.followUpDate ? toInputValue(formData.followUpDate) : ''}
+                    onChange={(e) => {
+                      const followUpDate = fromInputValue(e.target.value);
+                      handleInputChange('followUpDate', isNaN(followUpDate.getTime()) ? '' : followUpDate.toISOString());
+                    }}
                     className={getInputClasses()}
-                    disabled={loading}
+                    disabled={isFieldLocked('followUpDate')}
                   />
                 </div>
               )}
@@ -730,19 +1078,19 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
           </div>
 
           {/* Moderation Section */}
-          {moderationEnabled && canModifyAppointmentStatus && (
+          {moderationEnabled && canModifyAppointmentStatus && canModerate && (
             <div className="border-t pt-6">
-              <h4 className="text-md font-medium text-gray-900 mb-4">Moderation</h4>
+              <h4 className="text-md font-medium text-gray-900 mb-4">{messages.moderation}</h4>
               <div>
                 <label htmlFor="moderationNotes" className="block text-sm font-medium text-gray-700 mb-1">
-                  Moderation Notes
+                  {messages.moderationNotes}
                 </label>
                 <textarea
                   id="moderationNotes"
                   value={formData.moderationNotes || ''}
                   onChange={(e) => handleInputChange('moderationNotes', e.target.value)}
                   className={getInputClasses()}
-                  placeholder="Add notes about status changes or moderation decisions"
+                  placeholder={messages.moderationNotesPlaceholder}
                   rows={3}
                   disabled={loading}
                 />
@@ -750,6 +1098,56 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
             </div>
           )}
 
+          {/* Scheduling Conflicts */}
+          {conflicts.length > 0 && (
+            <div className="space-y-2">
+              {errors.conflicts && blockingConflictList.length > 0 && (
+                <p className="text-sm text-red-600">{errors.conflicts}</p>
+              )}
+              <ul className="space-y-1">
+                {conflicts.map((conflict) => {
+                  const isBlocking = blockingConflictList.includes(conflict);
+                  // Other people's bookings are described only as far as the user may see them
+                  const shown = maskAppointment(conflict.appointment, currentUser, { policy, busyTitle: messages.busy });
+
+                  return (
+                    <li
+                      key={`${conflict.type}-${conflict.appointment.id}`}
+                      className={cn('rounded-md px-3 py-2 text-sm', {
+                        'bg-red-50 text-red-700': isBlocking,
+                        'bg-yellow-50 text-yellow-800': !isBlocking,
+                      })}
+                    >
+                      {isBlocking ? '⛔ ' : '⚠️ '}
+                      {formatMessage(conflictMessages[conflict.type], {
+                        title: shown.title,
+                        time: formatDisplayDate(new Date(shown.startTime), 'MMM dd, p'),
+                      })}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {/* Reason recorded with the changes */}
+          {appointment && onAppointmentChanges && (
+            <div className="border-t pt-6">
+              <label htmlFor="changeReason" className="block text-sm font-medium text-gray-700 mb-1">
+                {messages.changeReason}
+              </label>
+              <textarea
+                id="changeReason"
+                value={changeReason}
+                onChange={(e) => setChangeReason(e.target.value)}
+                className={getInputClasses()}
+                placeholder={messages.changeReasonPlaceholder}
+                rows={2}
+                disabled={loading}
+              />
+            </div>
+          )}
+
           {/* Form Actions */}
           <div className="flex items-center justify-end space-x-3 pt-6 border-t">
             <button
@@ -758,7 +1156,7 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
               className={getButtonClasses('secondary', 'md', loading)}
               disabled={loading}
             >
-              Cancel
+              {messages.cancel}
             </button>
             <button
               type="submit"
@@ -768,10 +1166,10 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
               {loading ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  {appointment ? 'Updating...' : 'Creating...'}
+                  {appointment ? messages.updating : messages.creating}
                 </>
               ) : (
-                appointment ? 'Update Appointment' : 'Create Appointment'
+                appointment ? messages.updateAppointment : messages.createAppointment
               )}
             </button>
           </div>
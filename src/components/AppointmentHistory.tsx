@@ -0,0 +1,209 @@
+import React, { useMemo } from 'react';
+import type { Locale } from 'date-fns';
+import {
+  Appointment,
+  AppointmentAction,
+  AppointmentChange,
+  AppointmentChangeSource,
+  AppointmentEnumConfig,
+  AppointmentRecurrence,
+  CalendarMessages,
+  PolicyRule,
+  PolicyUser,
+  getConfigurableOptions
+} from '../types';
+import { formatDateInTimeZone, formatTimeInTimeZone, parseISODate } from '../utils/dateUtils';
+import { getAppointmentHistory, groupChangesByEdit } from '../utils/auditUtils';
+import { createPermissionCheck } from '../utils/policyUtils';
+import { getMessages } from '../utils/messages';
+import { cn } from '../utils/classNames';
+
+/**
+ * Props for the AppointmentHistory component
+ */
+export interface AppointmentHistoryProps {
+  // Appointment whose history is shown (its series for an occurrence)
+  appointment: Appointment;
+  // Recorded changes; those of other appointments are ignored
+  changes: AppointmentChange[];
+  // Display names for actor user IDs
+  actorNames?: Record<string, string>;
+  // Access policy; values of fields the current user may not view are hidden
+  currentUser?: PolicyUser;
+  policy?: PolicyRule[];
+  enumConfig?: AppointmentEnumConfig;
+  // IANA time zone times are shown in (default 'UTC')
+  timezone?: string;
+  timeFormat?: '12h' | '24h';
+  // Localization (English when omitted)
+  locale?: Locale;
+  messages?: Partial<CalendarMessages>;
+  className?: string;
+}
+
+// Labels of the fields shown in the form; other fields show their name
+const FIELD_LABELS: Partial<Record<keyof Appointment, keyof CalendarMessages>> = {
+  title: 'title',
+  description: 'description',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  status: 'status',
+  priority: 'priority',
+  type: 'appointmentType',
+  patientName: 'patientName',
+  patientEmail: 'patientEmail',
+  patientPhone: 'patientPhone',
+  patientDateOfBirth: 'dateOfBirth',
+  patientGender: 'gender',
+  doctorName: 'doctorName',
+  doctorSpecialty: 'doctorSpecialty',
+  location: 'location',
+  isOnlineAppointment: 'onlineAppointment',
+  meetingLink: 'meetingLink',
+  meetingPassword: 'meetingPassword',
+  symptoms: 'symptoms',
+  diagnosis: 'diagnosis',
+  prescription: 'prescription',
+  notes: 'notes',
+  cancellationReason: 'cancellationReason',
+  followUpRequired: 'followUpRequired',
+  followUpDate: 'followUpDate',
+  recurrence: 'repeats',
+  moderationNotes: 'moderationNotes',
+};
+
+// Fields holding instants, shown as date and time
+const DATE_TIME_FIELDS: (keyof Appointment)[] = [
+  'startTime',
+  'endTime',
+  'followUpDate',
+  'checkedInAt',
+  'roomedAt',
+  'moderatedAt',
+  'originalStartTime',
+];
+
+/**
+ * Timeline of the recorded changes to one appointment
+ * Each entry shows who changed it, when and how, the fields changed from
+ * before to after, and the reason given.
+ */
+export const AppointmentHistory: React.FC<AppointmentHistoryProps> = ({
+  appointment,
+  changes,
+  actorNames = {},
+  currentUser,
+  policy,
+  enumConfig,
+  timezone = 'UTC',
+  timeFormat = '12h',
+  locale,
+  messages: messageOverrides,
+  className,
+}) => {
+  const messages = getMessages(locale, messageOverrides);
+  const is24h = timeFormat === '24h';
+  const isAllowed = createPermissionCheck(currentUser, policy);
+
+  const appointmentId = appointment.recurringAppointmentId || appointment.id;
+  const edits = useMemo(
+    () => groupChangesByEdit(getAppointmentHistory(changes, appointmentId)),
+    [changes, appointmentId]
+  );
+
+  const sourceLabels: Record<AppointmentChangeSource, string> = {
+    [AppointmentChangeSource.FORM]: messages.changeSourceForm,
+    [AppointmentChangeSource.DRAG]: messages.changeSourceDrag,
+    [AppointmentChangeSource.RESIZE]: messages.changeSourceResize,
+  };
+
+  const optionLabels: Partial<Record<keyof Appointment, { value: string; label: string }[]>> = {
+    status: getConfigurableOptions(enumConfig, 'statuses'),
+    priority: getConfigurableOptions(enumConfig, 'priorities'),
+    type: getConfigurableOptions(enumConfig, 'types'),
+  };
+
+  const formatDateTime = (date: Date) => {
+    return `${formatDateInTimeZone(date, timezone, 'MMM dd, yyyy', locale)} ${formatTimeInTimeZone(date, timezone, is24h, locale)}`;
+  };
+
+  const formatValue = (field: keyof Appointment, value: unknown) => {
+    if (!isAllowed(AppointmentAction.VIEW, appointment, field)) return messages.hiddenValue;
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return messages.emptyValue;
+    }
+    if (typeof value === 'boolean') return value ? messages.yes : messages.no;
+    if (Array.isArray(value)) return value.join(', ');
+    if (field === 'recurrence') return (value as AppointmentRecurrence).rrule;
+    if (typeof value === 'object') return JSON.stringify(value);
+
+    const text = String(value);
+    const date = DATE_TIME_FIELDS.includes(field) ? parseISODate(text) : null;
+    if (date) return formatDateTime(date);
+    if (field === 'patientDateOfBirth') {
+      const birthDate = parseISODate(text);
+      if (birthDate) return formatDateInTimeZone(birthDate, 'UTC', 'MMM dd, yyyy', locale);
+    }
+    return optionLabels[field]?.find(option => option.value === text)?.label || text;
+  };
+
+  return (
+    <div className={cn('appointment-history', className)}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{messages.appointmentHistory}</h3>
+
+      {edits.length === 0 ? (
+        <p className="text-sm text-gray-500">{messages.noChangesRecorded}</p>
+      ) : (
+        <ol className="relative ml-2 border-l border-gray-200 space-y-6">
+          {edits.map((edit) => {
+            const [first] = edit;
+            const timestamp = parseISODate(first.timestamp);
+            const occurrenceStart = first.occurrenceStart && parseISODate(first.occurrenceStart);
+            const reason = edit.find(change => change.reason)?.reason;
+
+            return (
+              <li key={`${first.timestamp}-${first.actor}-${first.source}-${first.occurrenceStart}`} className="relative ml-4">
+                <span className="absolute -left-[1.4rem] top-1.5 h-3 w-3 rounded-full border-2 border-white bg-blue-500"></span>
+                {timestamp && (
+                  <time dateTime={first.timestamp} className="block text-xs text-gray-500">
+                    {formatDateTime(timestamp)}
+                  </time>
+                )}
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">
+                    {first.actor ? actorNames[first.actor] || first.actor : messages.unknownActor}
+                  </span>{' '}
+                  {sourceLabels[first.source]}
+                </p>
+                {occurrenceStart && (
+                  <p className="text-xs text-gray-500" title={messages.recurringAppointment}>
+                    🔁 {formatDateTime(occurrenceStart)}
+                  </p>
+                )}
+                <ul className="mt-1 space-y-1 text-sm">
+                  {edit.map((change) => (
+                    <li key={change.field} className="text-gray-700">
+                      <span className="font-medium">
+                        {FIELD_LABELS[change.field] ? messages[FIELD_LABELS[change.field]!] : change.field}:
+                      </span>{' '}
+                      <span className="text-gray-500 line-through">{formatValue(change.field, change.before)}</span>
+                      {' → '}
+                      <span>{formatValue(change.field, change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+                {reason && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    <span className="font-medium text-gray-700">{messages.reasonLabel}</span> {reason}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentHistory;
@@ -0,0 +1,306 @@
+import React, { useState, useMemo } from 'react';
+import type { Locale } from 'date-fns';
+import {
+  Appointment,
+  AppointmentAction,
+  AppointmentEnumConfig,
+  AppointmentFormData,
+  CalendarMessages,
+  ClinicClosure,
+  ConflictType,
+  CsvColumnMapping,
+  CsvImportReport,
+  PolicyRule,
+  PolicyUser,
+  ProviderSchedule
+} from '../types';
+import { formatDateInTimeZone, formatTimeInTimeZone, parseISODate } from '../utils/dateUtils';
+import { CSV_IMPORT_FIELDS, fromCSV, getCsvFieldLabel, parseCSV, suggestColumnMapping } from '../utils/csvUtils';
+import { getBlockingConflicts } from '../utils/conflictUtils';
+import { createPermissionCheck, maskAppointment } from '../utils/policyUtils';
+import { getMessages, formatMessage } from '../utils/messages';
+import { cn, getButtonClasses, getInputClasses } from '../utils/classNames';
+
+/**
+ * Props for the AppointmentImport component
+ */
+export interface AppointmentImportProps {
+  // Receive the accepted rows as form data, with the full report
+  onImport: (appointments: AppointmentFormData[], report: CsvImportReport) => void;
+  onCancel?: () => void;
+  // Existing appointments checked for double bookings
+  appointments?: Appointment[];
+  blockingConflicts?: ConflictType[]; // Conflict kinds that reject a row (others are warnings)
+  // Provider working hours and clinic closures; rows outside them are rejected
+  schedules?: ProviderSchedule[];
+  closures?: ClinicClosure[];
+  enumConfig?: AppointmentEnumConfig;
+  // Access policy; importing needs permission to create appointments
+  currentUser?: PolicyUser;
+  policy?: PolicyRule[];
+  // IANA time zone file times are read and shown in (default 'UTC')
+  timezone?: string;
+  // date-fns formats of the file's date-times and dates (ISO 8601 when omitted)
+  dateTimeFormat?: string;
+  dateFormat?: string;
+  timeFormat?: '12h' | '24h';
+  // Localization (English when omitted)
+  locale?: Locale;
+  messages?: Partial<CalendarMessages>;
+  className?: string;
+}
+
+/**
+ * Bulk import of appointments from a CSV file
+ * Columns are mapped onto appointment fields (guessed from the headers), and
+ * every row is previewed with the errors and conflicts that reject it before
+ * the accepted rows are imported.
+ */
+export const AppointmentImport: React.FC<AppointmentImportProps> = ({
+  onImport,
+  onCancel,
+  appointments = [],
+  blockingConflicts = [],
+  schedules = [],
+  closures = [],
+  enumConfig,
+  currentUser,
+  policy,
+  timezone = 'UTC',
+  dateTimeFormat,
+  dateFormat,
+  timeFormat = '12h',
+  locale,
+  messages: messageOverrides,
+  className,
+}) => {
+  const messages = getMessages(locale, messageOverrides);
+  const is24h = timeFormat === '24h';
+  const canCreate = createPermissionCheck(currentUser, policy)(AppointmentAction.CREATE);
+
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+
+  const report = useMemo(() => {
+    if (!text) return null;
+    return fromCSV(text, {
+      mapping,
+      enumConfig,
+      timeZone: timezone,
+      dateTimeFormat,
+      dateFormat,
+      appointments,
+      blockingConflicts,
+      schedules,
+      closures,
+      messages,
+    });
+  }, [text, mapping, enumConfig, timezone, dateTimeFormat, dateFormat, appointments, blockingConflicts, schedules, closures, messages]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    const [headerCells = []] = parseCSV(content);
+    const headers = headerCells.map((header, index) => header.trim() || `Column ${index + 1}`);
+    setFileName(file.name);
+    setMapping(suggestColumnMapping(headers, messages));
+    setText(content);
+  };
+
+  const handleMappingChange = (header: string, field: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (field) {
+        next[header] = field as keyof AppointmentFormData;
+      } else {
+        delete next[header];
+      }
+      return next;
+    });
+  };
+
+  const formatStart = (startTime: string) => {
+    const start = parseISODate(startTime);
+    if (!start) return '';
+    return `${formatDateInTimeZone(start, timezone, 'MMM dd, yyyy', locale)} ${formatTimeInTimeZone(start, timezone, is24h, locale)}`;
+  };
+
+  const conflictMessages: Record<ConflictType, string> = {
+    [ConflictType.PROVIDER]: messages.conflictProvider,
+    [ConflictType.PATIENT]: messages.conflictPatient,
+    [ConflictType.LOCATION]: messages.conflictLocation,
+  };
+
+  return (
+    <div className={cn('appointment-import space-y-6', className)}>
+      <h3 className="text-lg font-semibold text-gray-900">{messages.importAppointments}</h3>
+
+      <div>
+        <label htmlFor="appointment-import-file" className="block text-sm font-medium text-gray-700 mb-1">
+          {messages.chooseCsvFile}
+        </label>
+        <input
+          id="appointment-import-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={!canCreate}
+          className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-blue-700 hover:file:bg-blue-100"
+        />
+        {fileName && <p className="mt-1 text-xs text-gray-500">{fileName}</p>}
+      </div>
+
+      {report && (
+        <>
+          {/* Column mapping */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">{messages.columnMapping}</h4>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {report.headers.map((header, index) => (
+                <div key={`${header}-${index}`}>
+                  <label htmlFor={`appointment-import-column-${index}`} className="block text-xs font-medium text-gray-600 mb-1 truncate">
+                    {header}
+                  </label>
+                  <select
+                    id={`appointment-import-column-${index}`}
+                    value={mapping[header] || ''}
+                    onChange={(e) => handleMappingChange(header, e.target.value)}
+                    className={getInputClasses()}
+                  >
+                    <option value="">{messages.ignoreColumn}</option>
+                    {CSV_IMPORT_FIELDS.map(field => (
+                      <option
+                        key={field}
+                        value={field}
+                        disabled={mapping[header] !== field && Object.values(mapping).includes(field)}
+                      >
+                        {getCsvFieldLabel(field, messages)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-gray-900">{messages.importPreview}</h4>
+              <span className="text-sm text-gray-600">
+                {formatMessage(messages.importSummary, {
+                  accepted: report.accepted.length,
+                  rejected: report.rejected.length,
+                })}
+              </span>
+            </div>
+
+            {report.rows.length === 0 ? (
+              <p className="text-sm text-gray-500">{messages.noRowsToImport}</p>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border border-gray-200">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 text-left text-xs font-medium uppercase tracking-wide text-gray-500">
+                    <tr>
+                      <th className="px-3 py-2">{messages.rowNumber}</th>
+                      <th className="px-3 py-2">{messages.status}</th>
+                      <th className="px-3 py-2">{messages.title}</th>
+                      <th className="px-3 py-2">{messages.startTime}</th>
+                      <th className="px-3 py-2">{messages.patientName}</th>
+                      <th className="px-3 py-2">{messages.doctorName}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {report.rows.map(row => {
+                      const blockingList = getBlockingConflicts(row.conflicts, blockingConflicts);
+                      const fieldErrors = Object.entries(row.errors).filter(([field]) => field !== 'conflicts');
+
+                      return (
+                        <React.Fragment key={row.rowNumber}>
+                          <tr className={cn({ 'bg-red-50': !row.accepted })}>
+                            <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                            <td className="px-3 py-2">
+                              <span
+                                className={cn('inline-flex rounded-full px-2 py-0.5 text-xs font-medium', {
+                                  'bg-green-100 text-green-800': row.accepted,
+                                  'bg-red-100 text-red-800': !row.accepted,
+                                })}
+                              >
+                                {row.accepted ? messages.rowAccepted : messages.rowRejected}
+                              </span>
+                            </td>
+                            <td className="px-3 py-2 text-gray-900">{row.data.title}</td>
+                            <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{formatStart(row.data.startTime)}</td>
+                            <td className="px-3 py-2 text-gray-700">{row.data.patientName}</td>
+                            <td className="px-3 py-2 text-gray-700">{row.data.doctorName}</td>
+                          </tr>
+                          {(fieldErrors.length > 0 || row.conflicts.length > 0) && (
+                            <tr className={cn({ 'bg-red-50': !row.accepted })}>
+                              <td></td>
+                              <td colSpan={5} className="px-3 pb-2">
+                                <ul className="space-y-0.5 text-xs">
+                                  {fieldErrors.map(([field, error]) => (
+                                    <li key={field} className="text-red-700">
+                                      <span className="font-medium">
+                                        {(CSV_IMPORT_FIELDS as string[]).includes(field)
+                                          ? getCsvFieldLabel(field as keyof AppointmentFormData, messages)
+                                          : field}:
+                                      </span>{' '}
+                                      {error}
+                                    </li>
+                                  ))}
+                                  {row.conflicts.map(conflict => {
+                                    const isBlocking = blockingList.includes(conflict);
+                                    const shown = maskAppointment(conflict.appointment, currentUser, { policy, busyTitle: messages.busy });
+                                    return (
+                                      <li
+                                        key={`${conflict.type}-${conflict.appointment.id}`}
+                                        className={isBlocking ? 'text-red-700' : 'text-yellow-800'}
+                                      >
+                                        {isBlocking ? '⛔ ' : '⚠️ '}
+                                        {formatMessage(conflictMessages[conflict.type], {
+                                          title: shown.title,
+                                          time: formatStart(shown.startTime),
+                                        })}
+                                      </li>
+                                    );
+                                  })}
+                                </ul>
+                              </td>
+                            </tr>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Actions */}
+      <div className="flex items-center justify-end space-x-3 pt-4 border-t">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className={getButtonClasses('secondary', 'md')}>
+            {messages.cancel}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => report && onImport(report.accepted.map(row => row.data), report)}
+          className={getButtonClasses('primary', 'md', !canCreate || !report || report.accepted.length === 0)}
+          disabled={!canCreate || !report || report.accepted.length === 0}
+        >
+          {formatMessage(messages.importAcceptedRows, { count: report ? report.accepted.length : 0 })}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AppointmentImport;
@@ -1,10 +1,20 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { format, isSameDay, isSameMonth, isToday } from 'date-fns';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { format, parse, addMinutes, addDays, isSameDay, isSameMonth, isToday } from 'date-fns';
 import { 
   Appointment, 
   CalendarView, 
   CalendarConfig, 
   CalendarEventHandlers,
+  CalendarDataFilters,
+  CalendarDataSource,
+  CalendarResource,
+  ProviderSchedule,
+  ClinicClosure,
+  PolicyUser,
+  PolicyRule,
+  AppointmentAction,
+  AppointmentChangeSource,
+  RecurrenceEditScope,
   AppointmentStatus,
   AppointmentPriority,
   AppointmentType,
@@ -16,26 +26,84 @@ import {
 import { 
   getMonthDates, 
   getWeekDates, 
+  findVisibleDate,
   formatDate, 
   formatTime, 
   parseISODate,
   isCurrentMonth,
-  isCurrentDay 
+  isTodayInTimeZone,
+  toZonedDate,
+  fromZonedDate,
+  formatDateInTimeZone,
+  getStartOfDay,
+  getEndOfDay,
+  generateTimeSlots,
+  timeStringToMinutes,
+  getMinutesSinceStartOfDay
 } from '../utils/dateUtils';
+import { 
+  getAppointmentsForDate as getAppointmentsOnDate,
+  layoutOverlappingAppointments,
+  moveAppointment,
+  resizeAppointment,
+  getAppointmentsForResource,
+  assignAppointmentToResource
+} from '../utils/appointmentUtils';
+import { expandRecurringAppointments, updateRecurringAppointment } from '../utils/recurrenceUtils';
+import { detectConflicts, getBlockingConflicts, getConflictingAppointmentIds } from '../utils/conflictUtils';
+import { findProviderSchedule, getUnavailableRanges, isProviderAvailable } from '../utils/scheduleUtils';
+import {
+  getClosuresForDate,
+  getClosureRanges,
+  findClosureOverlap,
+  findAppointmentsInClosure,
+  isSameClosure
+} from '../utils/closureUtils';
+import { createPermissionCheck, maskAppointments } from '../utils/policyUtils';
+import { diffAppointments } from '../utils/auditUtils';
+import { downloadICS } from '../utils/icsUtils';
+import { downloadCSV } from '../utils/csvUtils';
+import { clearRangeCache, fetchAppointmentRange, getCachedRange } from '../utils/dataSourceUtils';
+import { isEndAfterStart } from '../utils/validation';
+import { getMessages, formatMessage, formatAppointmentCount } from '../utils/messages';
+import { AppointmentForm } from './AppointmentForm';
 import { 
   cn, 
   getCalendarDayClasses, 
   getNavigationClasses,
   getAppointmentCardClasses,
   getAppointmentStatusClasses,
-  getAppointmentPriorityClasses 
+  getAppointmentPriorityClasses,
+  getBusyBlockClasses
 } from '../utils/classNames';
 
+// Pixel height of one hour in the week/day time grid
+const HOUR_HEIGHT = 48;
+
+// Shortest duration rendered in the time grid so brief visits stay clickable
+const MIN_APPOINTMENT_MINUTES = 15;
+
+const ALL_WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Column of the time grid: a day in the week/day views or a resource in the resource view
+ */
+interface TimeGridColumn {
+  key: string;
+  date: Date;
+  appointments: Appointment[];
+  resource?: CalendarResource;
+}
+
 /**
  * Props for the Calendar component
  */
 export interface CalendarProps {
-  appointments: Appointment[];
+  appointments?: Appointment[];
+  // Load appointments by visible range instead of passing `appointments`.
+  // Keep the data source stable; a new data source reloads every range
+  dataSource?: CalendarDataSource;
+  dataFilters?: CalendarDataFilters;
   config?: Partial<CalendarConfig>;
   eventHandlers?: CalendarEventHandlers;
   className?: string;
@@ -45,6 +113,29 @@ export interface CalendarProps {
   enumConfig?: AppointmentEnumConfig;
   moderationEnabled?: boolean;
   currentUserRole?: UserRole;
+  // Access policy; actions the current user may not take are disabled
+  currentUser?: PolicyUser;
+  policy?: PolicyRule[];
+  // Drag-and-drop rescheduling
+  canDrop?: (appointment: Appointment, newStart: Date, newEnd: Date, resource?: CalendarResource) => boolean;
+  // Open the built-in appointment form for the selected range
+  openFormOnSelect?: boolean;
+  // Controlled and uncontrolled date/view state
+  date?: Date;
+  defaultDate?: Date;
+  onDateChange?: (date: Date) => void;
+  view?: CalendarView;
+  defaultView?: CalendarView;
+  onViewChange?: (view: CalendarView) => void;
+  showViewSwitcher?: boolean;
+  // "Download .ics" action on appointment cards in the day and agenda views
+  showIcsDownload?: boolean;
+  // "Export CSV" button for the appointments in the current view
+  showCsvExport?: boolean;
+  // Providers shown as columns in the resource view
+  resources?: CalendarResource[];
+  // Provider working hours; time outside them is shaded and cannot be booked
+  schedules?: ProviderSchedule[];
 }
 
 /**
@@ -52,7 +143,9 @@ export interface CalendarProps {
  * Displays appointments in different views (month, week, day, agenda)
  */
 export const Calendar: React.FC<CalendarProps> = ({
-  appointments,
+  appointments: staticAppointments = [],
+  dataSource,
+  dataFilters,
   config = {},
   eventHandlers = {},
   className,
@@ -61,15 +154,43 @@ export const Calendar: React.FC<CalendarProps> = ({
   enumConfig,
   moderationEnabled = false,
   currentUserRole,
+  currentUser,
+  policy,
+  canDrop,
+  openFormOnSelect = false,
+  date,
+  defaultDate,
+  onDateChange,
+  view,
+  defaultView = CalendarView.MONTH,
+  onViewChange,
+  showViewSwitcher = true,
+  showIcsDownload = true,
+  showCsvExport = false,
+  resources = [],
+  schedules = [],
 }) => {
   // Get configurable options
   const statusOptions = getConfigurableOptions(enumConfig, 'statuses');
   const priorityOptions = getConfigurableOptions(enumConfig, 'priorities');
   const typeOptions = getConfigurableOptions(enumConfig, 'types');
+  const getStatusLabel = (value: string) => statusOptions.find(option => option.value === value)?.label || value;
+  const getTypeLabel = (value: string) => typeOptions.find(option => option.value === value)?.label || value;
+
+  // Dates shown by the calendar are zoned dates: their local fields hold the
+  // wall-clock time in the configured time zone (see toZonedDate)
+  const timeZone = config.timezone || 'UTC';
+
+  // Date and view are controlled when provided as props, otherwise kept in state.
+  // config.view is still honored as a controlled view for backwards compatibility.
+  const [internalDate, setInternalDate] = useState(() => toZonedDate(defaultDate || new Date(), timeZone));
+  const [internalView, setInternalView] = useState(defaultView);
+  const controlledDate = useMemo(() => date && toZonedDate(date, timeZone), [date, timeZone]);
+  const currentDate = controlledDate ?? internalDate;
+  const currentView = view ?? config.view ?? internalView;
 
   // Default configuration
   const defaultConfig: CalendarConfig = {
-    view: CalendarView.MONTH,
     startOfWeek: 1, // Monday
     timeFormat: '12h',
     showWeekends: true,
@@ -78,98 +199,582 @@ export const Calendar: React.FC<CalendarProps> = ({
       end: '17:00',
       days: [1, 2, 3, 4, 5], // Monday to Friday
     },
-    timezone: 'UTC',
+    timeSlotInterval: 30,
+    agendaDays: 30,
     enumConfig,
     moderationEnabled,
     currentUserRole,
     ...config,
+    view: currentView,
+    timezone: timeZone,
   };
 
-  const [currentDate, setCurrentDate] = useState(new Date());
+  // Localized UI text and date formatting
+  const locale = defaultConfig.locale;
+  const messages = getMessages(locale, defaultConfig.messages);
+  const is24h = defaultConfig.timeFormat === '24h';
+
+  // Days of the week shown by the view: business days in the work week view,
+  // and no Saturdays or Sundays when weekends are hidden. Business days are
+  // compared by value since config.businessHours is often an inline object.
+  const showWeekends = defaultConfig.showWeekends;
+  const businessDaysKey = defaultConfig.businessHours.days.join(',');
+  const visibleDays = useMemo(() => {
+    const days = currentView === CalendarView.WORK_WEEK
+      ? businessDaysKey.split(',').filter(Boolean).map(Number)
+      : ALL_WEEK_DAYS;
+    const visible = showWeekends ? days : days.filter(day => day !== 0 && day !== 6);
+    return visible.length > 0 ? visible : ALL_WEEK_DAYS;
+  }, [currentView, businessDaysKey, showWeekends]);
+
+  // The day and resource views move off a hidden current date to the next shown day
+  const dayViewDate = useMemo(() => findVisibleDate(currentDate, visibleDays), [currentDate, visibleDays]);
+
+  // Parse an appointment time into a zoned date
+  const toZoned = useCallback((isoString: string) => {
+    const parsed = parseISODate(isoString);
+    return parsed ? toZonedDate(parsed, timeZone) : null;
+  }, [timeZone]);
+
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [draggedAppointment, setDraggedAppointment] = useState<Appointment | null>(null);
+  const [dragPreview, setDragPreview] = useState<{ start: Date; end: Date; allowed: boolean; columnKey?: string } | null>(null);
+  const dragOffsetMinutesRef = useRef(0);
+  const [resizing, setResizing] = useState<{ appointment: Appointment; column: HTMLElement; dayStart: Date } | null>(null);
+  const [resizeEnd, setResizeEnd] = useState<Date | null>(null);
+  const resizeEndRef = useRef<Date | null>(null);
+  const [selection, setSelection] = useState<{ mode: 'day' | 'time'; anchor: Date; current: Date; columnKey?: string } | null>(null);
+  const selectionRef = useRef(selection);
+  const [formRange, setFormRange] = useState<{ date: Date; startTime: string; endTime: string } | null>(null);
+  const [pendingRecurrenceEdit, setPendingRecurrenceEdit] = useState<{
+    occurrence: Appointment;
+    updated: Appointment;
+    source: AppointmentChangeSource;
+  } | null>(null);
+  const [closureWarnings, setClosureWarnings] = useState<{ closure: ClinicClosure; appointments: Appointment[] }[]>([]);
+  const timeGridScrollRef = useRef<HTMLDivElement>(null);
 
-  // Get appointments for the current view
-  const filteredAppointments = useMemo(() => {
-    if (!appointments.length) return [];
+  // Time grid rows for the week/day views
+  const slotInterval = defaultConfig.timeSlotInterval || 30;
+  const slotHeight = HOUR_HEIGHT * slotInterval / 60;
+  const snapInterval = defaultConfig.snapInterval || slotInterval;
+  const timeSlots = useMemo(() => generateTimeSlots('00:00', '24:00', slotInterval), [slotInterval]);
+  const businessMinutes = {
+    start: timeStringToMinutes(defaultConfig.businessHours.start),
+    end: timeStringToMinutes(defaultConfig.businessHours.end),
+  };
 
-    const startDate = new Date(currentDate);
-    const endDate = new Date(currentDate);
+  // Scroll the time grid to the start of business hours
+  useEffect(() => {
+    if (timeGridScrollRef.current) {
+      timeGridScrollRef.current.scrollTop = businessMinutes.start / 60 * HOUR_HEIGHT;
+    }
+  }, [defaultConfig.view, businessMinutes.start]);
 
+  // Get dates for current view
+  const viewDates = useMemo(() => {
     switch (defaultConfig.view) {
       case CalendarView.MONTH:
-        startDate.setDate(1);
-        endDate.setMonth(endDate.getMonth() + 1, 0);
-        break;
+        return getMonthDates(currentDate, defaultConfig.startOfWeek, visibleDays);
       case CalendarView.WEEK:
-        const weekStart = startDate;
-        weekStart.setDate(startDate.getDate() - startDate.getDay() + defaultConfig.startOfWeek);
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekStart.getDate() + 6);
-        startDate.setTime(weekStart.getTime());
-        endDate.setTime(weekEnd.getTime());
-        break;
+      case CalendarView.WORK_WEEK:
+        return getWeekDates(currentDate, defaultConfig.startOfWeek, visibleDays);
       case CalendarView.DAY:
-        endDate.setTime(startDate.getTime());
-        break;
+      case CalendarView.RESOURCE:
+        return [dayViewDate];
       default:
-        break;
+        return [];
+    }
+  }, [currentDate, dayViewDate, defaultConfig.view, defaultConfig.startOfWeek, visibleDays]);
+
+  // Range of dates shown by the current view, as zoned dates: whole days from
+  // the first date on the grid to the last, or the days the agenda lists
+  const agendaDays = Math.max(defaultConfig.agendaDays || 1, 1);
+  const visibleRange = useMemo(() => {
+    if (defaultConfig.view === CalendarView.AGENDA) {
+      return { start: getStartOfDay(currentDate), end: getEndOfDay(addDays(currentDate, agendaDays - 1)) };
+    }
+
+    const dates = viewDates.length > 0 ? viewDates : [currentDate];
+    return { start: getStartOfDay(dates[0]), end: getEndOfDay(dates[dates.length - 1]) };
+  }, [currentDate, viewDates, agendaDays, defaultConfig.view]);
+
+  // Appointments loaded from the data source for the visible range. The range
+  // and filters are compared by value since filters are often an inline object.
+  // Retrying requests the range again, even if it has been cached since, and
+  // changes reported to the host reload it once they are saved.
+  const [rangeAppointments, setRangeAppointments] = useState<Appointment[]>([]);
+  const [rangeLoading, setRangeLoading] = useState(false);
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [rangeReloads, setRangeReloads] = useState(0);
+  const refreshRangeRef = useRef(false);
+  const rangeStart = fromZonedDate(visibleRange.start, timeZone).getTime();
+  const rangeEnd = fromZonedDate(visibleRange.end, timeZone).getTime();
+  const dataFiltersKey = JSON.stringify(dataFilters || {});
+  useEffect(() => {
+    if (!dataSource) return;
+
+    const start = new Date(rangeStart);
+    const end = new Date(rangeEnd);
+    const filters: CalendarDataFilters = JSON.parse(dataFiltersKey);
+    const refresh = refreshRangeRef.current;
+    refreshRangeRef.current = false;
+    const cached = refresh ? undefined : getCachedRange(dataSource, start, end, filters);
+    if (cached) {
+      setRangeAppointments(cached);
+      setRangeLoading(false);
+      setRangeError(null);
+      return;
     }
 
-    return appointments.filter(apt => {
-      const aptStart = parseISODate(apt.startTime);
-      const aptEnd = parseISODate(apt.endTime);
+    // Responses for ranges the user has already moved away from are ignored
+    let isCurrentRange = true;
+    setRangeLoading(true);
+    setRangeError(null);
+    fetchAppointmentRange(dataSource, start, end, filters, { refresh })
+      .then(loaded => {
+        if (isCurrentRange) setRangeAppointments(loaded);
+      })
+      .catch((loadError: unknown) => {
+        if (isCurrentRange) setRangeError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => {
+        if (isCurrentRange) setRangeLoading(false);
+      });
+
+    return () => {
+      isCurrentRange = false;
+    };
+  }, [dataSource, rangeStart, rangeEnd, dataFiltersKey, rangeReloads]);
+
+  const handleRetryRange = useCallback(() => {
+    refreshRangeRef.current = true;
+    setRangeReloads(reloads => reloads + 1);
+  }, []);
+
+  // Drop the cached ranges and reload the visible one after the host's event
+  // handlers have run, waiting for the promises they return (the saves)
+  const reloadAfterCommit = useCallback((results: unknown[]) => {
+    if (!dataSource) return;
+    Promise.all(results).then(() => {
+      clearRangeCache(dataSource);
+      setRangeReloads(reloads => reloads + 1);
+    });
+  }, [dataSource]);
+
+  const appointments = dataSource ? rangeAppointments : staticAppointments;
+
+  // Get appointments for the current view
+  const filteredAppointments = useMemo(() => {
+    if (!appointments.length) return [];
+
+    const { start: startDate, end: endDate } = visibleRange;
+
+    // Recurring appointments are expanded into their occurrences in the range
+    const visibleAppointments = expandRecurringAppointments(
+      appointments,
+      fromZonedDate(startDate, timeZone),
+      fromZonedDate(endDate, timeZone),
+      timeZone
+    );
+
+    return visibleAppointments.filter(apt => {
+      const aptStart = toZoned(apt.startTime);
+      const aptEnd = toZoned(apt.endTime);
       
       if (!aptStart || !aptEnd) return false;
       
       return aptStart <= endDate && aptEnd >= startDate;
     });
-  }, [appointments, currentDate, defaultConfig.view, defaultConfig.startOfWeek]);
+  }, [appointments, visibleRange, timeZone, toZoned]);
 
-  // Get dates for current view
-  const viewDates = useMemo(() => {
-    switch (defaultConfig.view) {
-      case CalendarView.MONTH:
-        return getMonthDates(currentDate, defaultConfig.startOfWeek);
-      case CalendarView.WEEK:
-        return getWeekDates(currentDate, defaultConfig.startOfWeek);
-      case CalendarView.DAY:
-        return [currentDate];
-      default:
-        return [];
+  // Clinic closures, shaded in every view and never bookable
+  const closures = useMemo(() => config.closures || [], [config.closures]);
+
+  // Warn about existing appointments inside closures added after the first render,
+  // described only as far as the current user may see them
+  const seenClosuresRef = useRef<ClinicClosure[] | null>(null);
+  const warnOnClosureConflicts = defaultConfig.warnOnClosureConflicts;
+  useEffect(() => {
+    const previous = seenClosuresRef.current;
+    seenClosuresRef.current = closures;
+    if (!previous || !warnOnClosureConflicts) return;
+
+    const warnings = closures
+      .filter(closure => !previous.some(seen => isSameClosure(seen, closure)))
+      .map(closure => ({
+        closure,
+        appointments: maskAppointments(findAppointmentsInClosure(appointments, closure, timeZone), currentUser, {
+          policy,
+          busyTitle: messages.busy,
+        }),
+      }))
+      .filter(warning => warning.appointments.length > 0);
+    if (warnings.length > 0) {
+      setClosureWarnings(current => [...current, ...warnings]);
     }
-  }, [currentDate, defaultConfig.view, defaultConfig.startOfWeek]);
+  }, [closures, appointments, warnOnClosureConflicts, timeZone, currentUser, policy, messages.busy]);
+
+  // Appointments that double-book a provider, patient or location
+  const conflictingIds = useMemo(
+    () => getConflictingAppointmentIds(filteredAppointments, timeZone),
+    [filteredAppointments, timeZone]
+  );
+
+  // What the current user may see of the appointments; other patients'
+  // appointments become busy blocks and hidden fields are left out
+  const displayedAppointments = useMemo(
+    () => maskAppointments(filteredAppointments, currentUser, { policy, busyTitle: messages.busy }),
+    [filteredAppointments, currentUser, policy, messages.busy]
+  );
+
+  // Full appointment behind a displayed one, so moves and resizes keep hidden fields
+  const getSourceAppointment = useCallback((appointment: Appointment) => {
+    return filteredAppointments.find(apt => apt.id === appointment.id) || appointment;
+  }, [filteredAppointments]);
 
   // Get appointments for a specific date
   const getAppointmentsForDate = useCallback((date: Date) => {
-    return filteredAppointments.filter(apt => {
-      const aptStart = parseISODate(apt.startTime);
-      const aptEnd = parseISODate(apt.endTime);
-      
-      if (!aptStart || !aptEnd) return false;
-      
-      return isSameDay(aptStart, date) || 
-             (aptStart < date && aptEnd > date) ||
-             isSameDay(aptEnd, date);
-    });
-  }, [filteredAppointments]);
+    return getAppointmentsOnDate(displayedAppointments, date, timeZone);
+  }, [displayedAppointments, timeZone]);
 
   // Handle date click
   const handleDateClick = useCallback((date: Date) => {
     setSelectedDate(date);
-    eventHandlers.onDateClick?.(date);
-  }, [eventHandlers]);
+    eventHandlers.onDateClick?.(fromZonedDate(date, timeZone));
+  }, [eventHandlers, timeZone]);
+
+  // Access policy for the current user (no restrictions without a user)
+  const isAllowed = useMemo(() => createPermissionCheck(currentUser, policy), [currentUser, policy]);
 
-  // Handle appointment click
+  // Handle appointment click; appointments the user cannot view are not opened
   const handleAppointmentClick = useCallback((appointment: Appointment) => {
+    if (!isAllowed(AppointmentAction.VIEW, appointment)) return;
     setSelectedAppointment(appointment);
     eventHandlers.onAppointmentClick?.(appointment);
-  }, [eventHandlers]);
+  }, [eventHandlers, isAllowed]);
+
+  // Save an appointment, as shown to the current user, as an .ics file
+  const handleDownloadICS = (e: React.MouseEvent, appointment: Appointment) => {
+    e.stopPropagation();
+    downloadICS([appointment], `${appointment.id}.ics`, { timeZone, enumConfig });
+  };
+
+  // Save the appointments in the current view, as shown to the current user, as a .csv file
+  const handleExportCSV = () => {
+    downloadCSV(displayedAppointments, 'appointments.csv', { timeZone, enumConfig, messages });
+  };
 
   // Handle appointment double click
   const handleAppointmentDoubleClick = useCallback((appointment: Appointment) => {
+    if (!isAllowed(AppointmentAction.VIEW, appointment)) return;
     eventHandlers.onAppointmentDoubleClick?.(appointment);
-  }, [eventHandlers]);
+  }, [eventHandlers, isAllowed]);
+
+  // Appointments can only be dragged when the host app handles the update
+  // and the user may move them
+  const isDragEnabled = !!eventHandlers.onAppointmentUpdate;
+  const canMoveAppointment = (appointment: Appointment) => {
+    return isDragEnabled && isAllowed(AppointmentAction.MOVE, appointment);
+  };
+
+  // Record what the current user changed for the audit trail
+  const reportChanges = useCallback((original: Appointment, updated: Appointment, source: AppointmentChangeSource) => {
+    const changes = diffAppointments(original, updated, { source, actor: currentUser?.userId });
+    if (changes.length > 0) eventHandlers.onAppointmentChanges?.(changes);
+  }, [eventHandlers, currentUser]);
+
+  // Report an edited appointment, asking which occurrences to change first
+  // when it is an occurrence of a recurring appointment
+  const commitAppointmentUpdate = useCallback((
+    original: Appointment,
+    updated: Appointment,
+    source: AppointmentChangeSource
+  ) => {
+    if (original.recurringAppointmentId) {
+      setPendingRecurrenceEdit({ occurrence: original, updated, source });
+      return;
+    }
+    reloadAfterCommit([eventHandlers.onAppointmentUpdate?.(updated)]);
+    reportChanges(original, updated, source);
+  }, [eventHandlers, reportChanges, reloadAfterCommit]);
+
+  // Apply a pending recurring edit to the chosen occurrences
+  const handleRecurrenceEditScope = (scope: RecurrenceEditScope) => {
+    if (!pendingRecurrenceEdit) return;
+    setPendingRecurrenceEdit(null);
+
+    const { occurrence, updated, source } = pendingRecurrenceEdit;
+    const series = appointments.find(apt => apt.id === occurrence.recurringAppointmentId);
+    if (!series) return;
+
+    const result = updateRecurringAppointment(series, occurrence, updated, scope, timeZone);
+    reloadAfterCommit([
+      ...result.updated.map(apt => eventHandlers.onAppointmentUpdate?.(apt)),
+      ...result.created.map(apt => eventHandlers.onAppointmentCreate?.(apt)),
+    ]);
+    reportChanges(occurrence, updated, source);
+  };
+
+  // Handle the start of an appointment drag
+  const handleAppointmentDragStart = useCallback((
+    e: React.DragEvent<HTMLDivElement>,
+    appointment: Appointment,
+    offsetMinutes: number = 0
+  ) => {
+    e.stopPropagation();
+    if (resizeEndRef.current || resizing) {
+      e.preventDefault();
+      return;
+    }
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', appointment.id);
+    dragOffsetMinutesRef.current = offsetMinutes;
+    setDraggedAppointment(getSourceAppointment(appointment));
+  }, [resizing, getSourceAppointment]);
+
+  const handleAppointmentDragEnd = useCallback(() => {
+    setDraggedAppointment(null);
+    setDragPreview(null);
+  }, []);
+
+  // Check whether a moved or resized appointment falls in a clinic closure or
+  // outside its provider's schedule, or double-books someone in a way
+  // configured as blocking
+  const blockingConflicts = defaultConfig.blockingConflicts;
+  const isBlockedTime = useCallback((candidate: Appointment) => {
+    const start = parseISODate(candidate.startTime)!;
+    const end = parseISODate(candidate.endTime)!;
+    if (findClosureOverlap(closures, start, end, timeZone)) return true;
+    const schedule = findProviderSchedule(schedules, candidate);
+    if (schedule && !isProviderAvailable(schedule, start, end, timeZone)) {
+      return true;
+    }
+    if (!blockingConflicts?.length) return false;
+    return getBlockingConflicts(detectConflicts(appointments, candidate, timeZone), blockingConflicts).length > 0;
+  }, [appointments, blockingConflicts, closures, schedules, timeZone]);
+
+  // A drop is allowed when canDrop accepts the new times and nothing blocks them
+  const isMoveAllowed = useCallback((appointment: Appointment, moved: Appointment, resource?: CalendarResource) => {
+    if (canDrop && !canDrop(appointment, parseISODate(moved.startTime)!, parseISODate(moved.endTime)!, resource)) {
+      return false;
+    }
+    return !isBlockedTime(resource ? assignAppointmentToResource(moved, resource) : moved);
+  }, [canDrop, isBlockedTime]);
+
+  // Update the drop preview and allow the drop when the new times are allowed
+  const handleDragOverStart = useCallback((
+    e: React.DragEvent<HTMLDivElement>,
+    newStart: Date,
+    columnKey?: string,
+    resource?: CalendarResource
+  ) => {
+    if (!draggedAppointment) return;
+
+    const moved = moveAppointment(draggedAppointment, fromZonedDate(newStart, timeZone));
+    const newEnd = toZoned(moved.endTime)!;
+    const allowed = isMoveAllowed(draggedAppointment, moved, resource);
+
+    if (allowed) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    }
+
+    if (
+      !dragPreview ||
+      dragPreview.start.getTime() !== newStart.getTime() ||
+      dragPreview.allowed !== allowed ||
+      dragPreview.columnKey !== columnKey
+    ) {
+      setDragPreview({ start: newStart, end: newEnd, allowed, columnKey });
+    }
+  }, [draggedAppointment, dragPreview, isMoveAllowed, timeZone, toZoned]);
+
+  // Reschedule the dragged appointment, keeping its duration, and reassign its
+  // doctor when it was dropped on another resource column
+  const handleDropAtStart = useCallback((
+    e: React.DragEvent<HTMLDivElement>,
+    newStart: Date,
+    resource?: CalendarResource
+  ) => {
+    e.preventDefault();
+    const appointment = draggedAppointment;
+    handleAppointmentDragEnd();
+    if (!appointment) return;
+
+    const isReassigned = !!resource && resource.id !== appointment.doctorId;
+    let moved = moveAppointment(appointment, fromZonedDate(newStart, timeZone));
+    if (moved.startTime === parseISODate(appointment.startTime)?.toISOString() && !isReassigned) return;
+    if (!isMoveAllowed(appointment, moved, resource)) return;
+
+    if (isReassigned) {
+      moved = assignAppointmentToResource(moved, resource);
+    }
+
+    commitAppointmentUpdate(appointment, moved, AppointmentChangeSource.DRAG);
+  }, [draggedAppointment, isMoveAllowed, commitAppointmentUpdate, handleAppointmentDragEnd, timeZone]);
+
+  // Month view drops keep the appointment's time of day
+  const getMonthDropStart = (appointment: Appointment, date: Date) => {
+    const aptStart = toZoned(appointment.startTime)!;
+    const newStart = getStartOfDay(date);
+    newStart.setMinutes(getMinutesSinceStartOfDay(aptStart));
+    return newStart;
+  };
+
+  // Time grid drops snap the pointer position to the nearest slot
+  const getTimeGridDropStart = (e: React.DragEvent<HTMLDivElement>, date: Date) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutes = (e.clientY - rect.top) / HOUR_HEIGHT * 60 - dragOffsetMinutesRef.current;
+    const snappedMinutes = Math.min(
+      Math.max(Math.round(minutes / snapInterval) * snapInterval, 0),
+      24 * 60 - snapInterval
+    );
+    const newStart = getStartOfDay(date);
+    newStart.setMinutes(snappedMinutes);
+    return newStart;
+  };
+
+  // Start resizing an appointment from its bottom edge
+  const handleResizeStart = (e: React.MouseEvent<HTMLDivElement>, appointment: Appointment, dayStart: Date) => {
+    const column = e.currentTarget.closest<HTMLElement>('[data-time-grid-column]');
+    if (!column) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    setResizing({ appointment: getSourceAppointment(appointment), column, dayStart });
+  };
+
+  // Track the pointer while resizing and report the snapped end time on release
+  useEffect(() => {
+    if (!resizing) return;
+
+    const aptStart = toZoned(resizing.appointment.startTime);
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const rect = resizing.column.getBoundingClientRect();
+      const minutes = (e.clientY - rect.top) / HOUR_HEIGHT * 60;
+      const snappedMinutes = Math.min(Math.max(Math.round(minutes / snapInterval) * snapInterval, 0), 24 * 60);
+      const newEnd = new Date(resizing.dayStart);
+      newEnd.setMinutes(snappedMinutes);
+
+      // Same rule as the appointment form: the end must stay after the start
+      if (!aptStart || !isEndAfterStart(aptStart.toISOString(), newEnd.toISOString())) return;
+
+      if (resizeEndRef.current?.getTime() !== newEnd.getTime()) {
+        resizeEndRef.current = newEnd;
+        setResizeEnd(newEnd);
+      }
+    };
+
+    const handleMouseUp = () => {
+      const newEnd = resizeEndRef.current && fromZonedDate(resizeEndRef.current, timeZone);
+      if (newEnd && newEnd.getTime() !== parseISODate(resizing.appointment.endTime)?.getTime()) {
+        const resized = resizeAppointment(resizing.appointment, newEnd);
+        if (!isBlockedTime(resized)) {
+          commitAppointmentUpdate(resizing.appointment, resized, AppointmentChangeSource.RESIZE);
+        }
+      }
+
+      resizeEndRef.current = null;
+      setResizeEnd(null);
+      setResizing(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [resizing, snapInterval, commitAppointmentUpdate, isBlockedTime, timeZone, toZoned]);
+
+  // Get the start and end of a drag selection, whole days in the month view
+  const getSelectionRange = useCallback((range: { mode: 'day' | 'time'; anchor: Date; current: Date; columnKey?: string }) => {
+    const [first, last] = range.anchor <= range.current
+      ? [range.anchor, range.current]
+      : [range.current, range.anchor];
+
+    if (range.mode === 'day') {
+      return { start: getStartOfDay(first), end: getEndOfDay(last) };
+    }
+
+    return { start: first, end: addMinutes(last, slotInterval) };
+  }, [slotInterval]);
+
+  // Start selecting empty slots or day cells
+  const handleSelectionStart = (e: React.MouseEvent, mode: 'day' | 'time', date: Date, columnKey?: string) => {
+    if (e.button !== 0) return;
+
+    e.preventDefault();
+    selectionRef.current = { mode, anchor: date, current: date, columnKey };
+    setSelection(selectionRef.current);
+  };
+
+  // Extend the selection, keeping time selections within a single column
+  const handleSelectionMove = (date: Date, columnKey?: string) => {
+    const current = selectionRef.current;
+    if (!current || current.current.getTime() === date.getTime()) return;
+    if (current.mode === 'time' && current.columnKey !== columnKey) return;
+
+    selectionRef.current = { ...current, current: date };
+    setSelection(selectionRef.current);
+  };
+
+  // Finish the selection when the mouse is released anywhere
+  const isSelecting = !!selection;
+  useEffect(() => {
+    if (!isSelecting) return;
+
+    const handleMouseUp = () => {
+      const current = selectionRef.current;
+      selectionRef.current = null;
+      setSelection(null);
+      if (!current) return;
+
+      const { start, end } = getSelectionRange(current);
+      eventHandlers.onDateSelect?.(fromZonedDate(start, timeZone), fromZonedDate(end, timeZone));
+
+      if (openFormOnSelect && isAllowed(AppointmentAction.CREATE)) {
+        const formStart = current.mode === 'day'
+          ? addMinutes(start, businessMinutes.start)
+          : start;
+        const formEnd = current.mode === 'day'
+          ? addMinutes(formStart, slotInterval)
+          : end;
+
+        setFormRange({
+          date: start,
+          startTime: format(formStart, 'HH:mm'),
+          endTime: format(formEnd, 'HH:mm'),
+        });
+      }
+    };
+
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [isSelecting, getSelectionRange, eventHandlers, openFormOnSelect, isAllowed, businessMinutes.start, slotInterval, timeZone]);
+
+  const selectionRange = selection ? getSelectionRange(selection) : null;
+
+  // Change the visible date, notifying the host app
+  const setCurrentDate = useCallback((newDate: Date) => {
+    if (date === undefined) {
+      setInternalDate(newDate);
+    }
+    onDateChange?.(fromZonedDate(newDate, timeZone));
+  }, [date, onDateChange, timeZone]);
+
+  // Change the active view, notifying the host app
+  const handleViewChange = useCallback((newView: CalendarView) => {
+    if (view === undefined && config.view === undefined) {
+      setInternalView(newView);
+    }
+    onViewChange?.(newView);
+    eventHandlers.onViewChange?.(newView);
+  }, [view, config.view, onViewChange, eventHandlers]);
 
   // Navigation handlers
   const handlePrevious = useCallback(() => {
@@ -179,14 +784,20 @@ export const Calendar: React.FC<CalendarProps> = ({
         newDate.setMonth(newDate.getMonth() - 1);
         break;
       case CalendarView.WEEK:
+      case CalendarView.WORK_WEEK:
         newDate.setDate(newDate.getDate() - 7);
         break;
+      case CalendarView.AGENDA:
+        newDate.setDate(newDate.getDate() - agendaDays);
+        break;
       case CalendarView.DAY:
-        newDate.setDate(newDate.getDate() - 1);
+      case CalendarView.RESOURCE:
+        // Step from the shown day, skipping hidden days
+        newDate.setTime(findVisibleDate(addDays(dayViewDate, -1), visibleDays, -1).getTime());
         break;
     }
     setCurrentDate(newDate);
-  }, [currentDate, defaultConfig.view]);
+  }, [currentDate, dayViewDate, defaultConfig.view, setCurrentDate, visibleDays, agendaDays]);
 
   const handleNext = useCallback(() => {
     const newDate = new Date(currentDate);
@@ -195,31 +806,36 @@ export const Calendar: React.FC<CalendarProps> = ({
         newDate.setMonth(newDate.getMonth() + 1);
         break;
       case CalendarView.WEEK:
+      case CalendarView.WORK_WEEK:
         newDate.setDate(newDate.getDate() + 7);
         break;
+      case CalendarView.AGENDA:
+        newDate.setDate(newDate.getDate() + agendaDays);
+        break;
       case CalendarView.DAY:
-        newDate.setDate(newDate.getDate() + 1);
+      case CalendarView.RESOURCE:
+        // Step from the shown day, skipping hidden days
+        newDate.setTime(findVisibleDate(addDays(dayViewDate, 1), visibleDays, 1).getTime());
         break;
     }
     setCurrentDate(newDate);
-  }, [currentDate, defaultConfig.view]);
+  }, [currentDate, dayViewDate, defaultConfig.view, setCurrentDate, visibleDays, agendaDays]);
 
   const handleToday = useCallback(() => {
-    setCurrentDate(new Date());
-  }, []);
+    setCurrentDate(toZonedDate(new Date(), timeZone));
+  }, [setCurrentDate, timeZone]);
 
   // Render month view
   const renderMonthView = () => {
-    const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    const adjustedWeekDays = [
-      ...weekDays.slice(defaultConfig.startOfWeek),
-      ...weekDays.slice(0, defaultConfig.startOfWeek)
-    ];
+    const weekDays = viewDates.slice(0, visibleDays.length).map((date) => formatDate(date, 'EEE', locale));
 
     return (
-      <div className="grid grid-cols-7 gap-px bg-gray-200 rounded-lg overflow-hidden">
+      <div
+        className="grid gap-px bg-gray-200 rounded-lg overflow-hidden"
+        style={{ gridTemplateColumns: `repeat(${visibleDays.length}, minmax(0, 1fr))` }}
+      >
         {/* Week day headers */}
-        {adjustedWeekDays.map((day) => (
+        {weekDays.map((day) => (
           <div key={day} className="bg-gray-50 px-3 py-2 text-center text-sm font-medium text-gray-700">
             {day}
           </div>
@@ -229,9 +845,10 @@ export const Calendar: React.FC<CalendarProps> = ({
         {viewDates.map((date, index) => {
           const dayAppointments = getAppointmentsForDate(date);
           const isCurrentMonthDay = isCurrentMonth(date, currentDate);
-          const isTodayDate = isCurrentDay(date);
+          const isTodayDate = isTodayInTimeZone(date, timeZone);
           const isSelected = selectedDate && isSameDay(date, selectedDate);
           const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+          const dayClosures = getClosuresForDate(closures, date);
 
           return (
             <div
@@ -241,11 +858,19 @@ export const Calendar: React.FC<CalendarProps> = ({
                 'hover:bg-gray-50',
                 {
                   'bg-gray-50': !isCurrentMonthDay,
+                  'bg-orange-50': dayClosures.length > 0,
                   'bg-blue-50': isSelected,
                   'bg-yellow-50': isTodayDate && !isSelected,
+                  'ring-2 ring-inset ring-blue-400': dragPreview?.allowed && isSameDay(dragPreview.start, date),
+                  'ring-2 ring-inset ring-red-300': dragPreview && !dragPreview.allowed && isSameDay(dragPreview.start, date),
+                  'bg-blue-100': selectionRange && date >= selectionRange.start && date <= selectionRange.end,
                 }
               )}
               onClick={() => handleDateClick(date)}
+              onMouseDown={(e) => handleSelectionStart(e, 'day', date)}
+              onMouseEnter={() => handleSelectionMove(date)}
+              onDragOver={(e) => draggedAppointment && handleDragOverStart(e, getMonthDropStart(draggedAppointment, date))}
+              onDrop={(e) => draggedAppointment && handleDropAtStart(e, getMonthDropStart(draggedAppointment, date))}
             >
               <div className="flex items-center justify-between mb-1">
                 <span className={cn(
@@ -263,6 +888,19 @@ export const Calendar: React.FC<CalendarProps> = ({
                   <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
                 )}
               </div>
+
+              {/* Clinic closures on this day */}
+              {dayClosures.map((closure) => (
+                <div
+                  key={closure.id || closure.label}
+                  className="text-xs px-1 mb-1 rounded truncate bg-orange-100 text-orange-800"
+                  title={closure.label}
+                >
+                  {closure.startTime || closure.endTime
+                    ? `${closure.startTime || '00:00'}–${closure.endTime || '24:00'} ${closure.label}`
+                    : closure.label}
+                </div>
+              ))}
               
               {/* Appointments for this day */}
               <div className="space-y-1">
@@ -270,10 +908,20 @@ export const Calendar: React.FC<CalendarProps> = ({
                   <div
                     key={appointment.id}
                     className={cn(
-                      'text-xs p-1 rounded truncate cursor-pointer',
-                      'hover:bg-blue-100 transition-colors',
-                      getAppointmentStatusClasses(appointment.status)
+                      'text-xs p-1 rounded truncate',
+                      appointment.isBusy
+                        ? getBusyBlockClasses()
+                        : ['cursor-pointer hover:bg-blue-100 transition-colors', getAppointmentStatusClasses(appointment.status)],
+                      {
+                        'opacity-50': draggedAppointment?.id === appointment.id,
+                        'ring-1 ring-red-500': conflictingIds.has(appointment.id),
+                      }
                     )}
+                    title={conflictingIds.has(appointment.id) ? messages.conflictingAppointment : undefined}
+                    draggable={canMoveAppointment(appointment)}
+                    onDragStart={(e) => handleAppointmentDragStart(e, appointment)}
+                    onDragEnd={handleAppointmentDragEnd}
+                    onMouseDown={(e) => e.stopPropagation()}
                     onClick={(e) => {
                       e.stopPropagation();
                       handleAppointmentClick(appointment);
@@ -283,12 +931,12 @@ export const Calendar: React.FC<CalendarProps> = ({
                       handleAppointmentDoubleClick(appointment);
                     }}
                   >
-                    {formatTime(parseISODate(appointment.startTime)!, defaultConfig.timeFormat === '24h')} {appointment.title}
+                    {formatTime(toZoned(appointment.startTime)!, is24h, locale)} {appointment.title}
                   </div>
                 ))}
                 {dayAppointments.length > 3 && (
                   <div className="text-xs text-gray-500">
-                    +{dayAppointments.length - 3} more
+                    {formatMessage(messages.moreAppointments, { count: dayAppointments.length - 3 })}
                   </div>
                 )}
               </div>
@@ -299,90 +947,271 @@ export const Calendar: React.FC<CalendarProps> = ({
     );
   };
 
-  // Render week view
-  const renderWeekView = () => {
-    const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    const adjustedWeekDays = [
-      ...weekDays.slice(defaultConfig.startOfWeek),
-      ...weekDays.slice(0, defaultConfig.startOfWeek)
-    ];
+  // Render the hour-by-hour time grid shared by the week and day views
+  const renderTimeGrid = (
+    columns: TimeGridColumn[],
+    renderAppointmentContent: (appointment: Appointment, start: Date, end: Date) => React.ReactNode
+  ) => {
+    const timeLabelFormat = is24h ? 'HH:mm' : 'h a';
 
     return (
-      <div className="grid grid-cols-7 gap-px bg-gray-200 rounded-lg overflow-hidden">
-        {/* Week day headers */}
-        {adjustedWeekDays.map((day, index) => (
-          <div key={day} className="bg-gray-50 px-3 py-2 text-center text-sm font-medium text-gray-700">
-            <div>{day}</div>
-            <div className="text-xs text-gray-500">
-              {format(viewDates[index], 'MMM dd')}
-            </div>
+      <div
+        ref={timeGridScrollRef}
+        className="overflow-y-auto"
+        style={{ height: (businessMinutes.end - businessMinutes.start) / 60 * HOUR_HEIGHT }}
+      >
+        <div className="flex">
+          {/* Time axis */}
+          <div className="w-16 flex-shrink-0 border-r border-gray-200">
+            {timeSlots.map((slot) => (
+              <div
+                key={slot}
+                className="relative text-right pr-2 text-xs text-gray-500"
+                style={{ height: slotHeight }}
+              >
+                {slot.endsWith(':00') && (
+                  <span className="relative -top-2">
+                    {formatDate(parse(slot, 'HH:mm', new Date()), timeLabelFormat, locale)}
+                  </span>
+                )}
+              </div>
+            ))}
           </div>
-        ))}
-        
-        {/* Week days content */}
-        {viewDates.map((date, index) => {
-          const dayAppointments = getAppointmentsForDate(date);
-          const isTodayDate = isCurrentDay(date);
-          const isSelected = selectedDate && isSameDay(date, selectedDate);
 
-          return (
-            <div
-              key={index}
-              className={cn(
-                'bg-white min-h-[400px] p-2 cursor-pointer transition-colors',
-                'hover:bg-gray-50',
-                {
-                  'bg-blue-50': isSelected,
-                  'bg-yellow-50': isTodayDate && !isSelected,
-                }
-              )}
-              onClick={() => handleDateClick(date)}
-            >
-              <div className="space-y-2">
-                {dayAppointments.map((appointment) => (
+          {/* Day or resource columns */}
+          {columns.map(({ key, date, appointments: columnAppointments, resource }) => {
+            const dayStart = getStartOfDay(date);
+            const dayEnd = getEndOfDay(date);
+            const isTodayDate = isTodayInTimeZone(date, timeZone);
+            const schedule = resource && findProviderSchedule(schedules, { doctorId: resource.id });
+
+            return (
+              <div
+                key={key}
+                className={cn(
+                  'relative flex-1 min-w-0 border-r border-gray-200 last:border-r-0',
+                  { 'bg-yellow-50/40': isTodayDate }
+                )}
+                data-time-grid-column
+                onDragOver={(e) => handleDragOverStart(e, getTimeGridDropStart(e, date), key, resource)}
+                onDrop={(e) => handleDropAtStart(e, getTimeGridDropStart(e, date), resource)}
+              >
+                {/* Slot rows */}
+                {timeSlots.map((slot) => {
+                  const slotMinutes = timeStringToMinutes(slot);
+                  const slotDate = addMinutes(dayStart, slotMinutes);
+                  const isOutsideBusinessHours =
+                    slotMinutes < businessMinutes.start || slotMinutes >= businessMinutes.end;
+
+                  return (
+                    <div
+                      key={slot}
+                      className={cn(
+                        'border-b cursor-pointer hover:bg-blue-50',
+                        slot.endsWith(':00') ? 'border-gray-200' : 'border-gray-100',
+                        { 'bg-gray-50': isOutsideBusinessHours }
+                      )}
+                      style={{ height: slotHeight }}
+                      onClick={() => handleDateClick(slotDate)}
+                      onMouseDown={(e) => handleSelectionStart(e, 'time', slotDate, key)}
+                      onMouseEnter={() => handleSelectionMove(slotDate, key)}
+                    />
+                  );
+                })}
+
+                {/* Time the provider is not working */}
+                {schedule && getUnavailableRanges(schedule, date).map((range) => (
                   <div
-                    key={appointment.id}
-                    className={cn(
-                      'p-2 rounded border-l-4 cursor-pointer transition-colors',
-                      'hover:shadow-sm',
-                      getAppointmentCardClasses(appointment.status, appointment.priority)
-                    )}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleAppointmentClick(appointment);
+                    key={range.start}
+                    className="absolute inset-x-0 pointer-events-none overflow-hidden bg-gray-200/60 px-1 text-xs text-gray-500"
+                    style={{
+                      top: range.start / 60 * HOUR_HEIGHT,
+                      height: (range.end - range.start) / 60 * HOUR_HEIGHT,
                     }}
-                    onDoubleClick={(e) => {
-                      e.stopPropagation();
-                      handleAppointmentDoubleClick(appointment);
+                  >
+                    {range.reason || messages.providerOff}
+                  </div>
+                ))}
+
+                {/* Clinic closures */}
+                {getClosureRanges(closures, date).map((range) => (
+                  <div
+                    key={`${range.start}-${range.reason}`}
+                    className="absolute inset-x-0 pointer-events-none overflow-hidden bg-orange-100/70 px-1 text-xs text-orange-800"
+                    style={{
+                      top: range.start / 60 * HOUR_HEIGHT,
+                      height: (range.end - range.start) / 60 * HOUR_HEIGHT,
                     }}
                   >
-                    <div className="flex items-center justify-between mb-1">
-                      <span className="text-sm font-medium">{appointment.title}</span>
-                      <div className={getAppointmentPriorityClasses(appointment.priority)}></div>
-                    </div>
-                    <div className="text-xs text-gray-600">
-                      {formatTime(parseISODate(appointment.startTime)!, defaultConfig.timeFormat === '24h')} - 
-                      {formatTime(parseISODate(appointment.endTime)!, defaultConfig.timeFormat === '24h')}
-                    </div>
-                    {appointment.location && (
-                      <div className="text-xs text-gray-500 truncate">
-                        📍 {appointment.location}
-                      </div>
-                    )}
+                    {range.reason}
                   </div>
                 ))}
+
+                {/* Appointments placed by start time, sized by duration and laid out side by side when they overlap */}
+                {layoutOverlappingAppointments(columnAppointments, MIN_APPOINTMENT_MINUTES).map(({ appointment, left, width }) => {
+                  const aptStart = toZoned(appointment.startTime)!;
+                  const isResizing = resizing?.appointment.id === appointment.id && !!resizeEnd;
+                  const aptEnd = isResizing ? resizeEnd! : toZoned(appointment.endTime)!;
+                  const segmentStart = aptStart < dayStart ? dayStart : aptStart;
+                  const segmentEnd = aptEnd > dayEnd ? dayEnd : aptEnd;
+                  const startMinutes = getMinutesSinceStartOfDay(segmentStart);
+                  const durationMinutes = Math.max(
+                    (segmentEnd.getTime() - segmentStart.getTime()) / 60000,
+                    MIN_APPOINTMENT_MINUTES
+                  );
+
+                  return (
+                    <div
+                      key={appointment.id}
+                      className={cn(
+                        'absolute overflow-hidden rounded p-1 transition-colors',
+                        appointment.isBusy
+                          ? getBusyBlockClasses()
+                          : [
+                            'border-l-4 cursor-pointer hover:shadow-md hover:z-10',
+                            getAppointmentCardClasses(
+                              appointment.status,
+                              appointment.priority,
+                              false,
+                              conflictingIds.has(appointment.id)
+                            ),
+                          ],
+                        { 'opacity-50': draggedAppointment?.id === appointment.id }
+                      )}
+                      title={conflictingIds.has(appointment.id) ? messages.conflictingAppointment : undefined}
+                      style={{
+                        top: startMinutes / 60 * HOUR_HEIGHT,
+                        height: durationMinutes / 60 * HOUR_HEIGHT,
+                        left: `calc(${left * 100}% + 2px)`,
+                        width: `calc(${width * 100}% - 4px)`,
+                      }}
+                      draggable={canMoveAppointment(appointment)}
+                      onDragStart={(e) => handleAppointmentDragStart(
+                        e,
+                        appointment,
+                        (e.clientY - e.currentTarget.getBoundingClientRect().top) / HOUR_HEIGHT * 60 +
+                          (segmentStart.getTime() - aptStart.getTime()) / 60000
+                      )}
+                      onDragEnd={handleAppointmentDragEnd}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleAppointmentClick(appointment);
+                      }}
+                      onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        handleAppointmentDoubleClick(appointment);
+                      }}
+                    >
+                      {renderAppointmentContent(appointment, aptStart, aptEnd)}
+
+                      {/* Resize handle */}
+                      {canMoveAppointment(appointment) && segmentEnd.getTime() === aptEnd.getTime() && (
+                        <div
+                          className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize hover:bg-black/10"
+                          onMouseDown={(e) => handleResizeStart(e, appointment, dayStart)}
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {/* Selection preview */}
+                {selection?.mode === 'time' && selection.columnKey === key && selectionRange && (
+                  <div
+                    className="absolute left-0 right-0 rounded bg-blue-200/60 border border-blue-400 pointer-events-none"
+                    style={{
+                      top: getMinutesSinceStartOfDay(selectionRange.start) / 60 * HOUR_HEIGHT,
+                      height: (selectionRange.end.getTime() - selectionRange.start.getTime()) / 3600000 * HOUR_HEIGHT,
+                    }}
+                  />
+                )}
+
+                {/* Drop preview */}
+                {dragPreview && dragPreview.columnKey === key && (
+                  <div
+                    className={cn(
+                      'absolute left-0 right-0 rounded border-2 border-dashed pointer-events-none',
+                      dragPreview.allowed ? 'border-blue-400 bg-blue-100/50' : 'border-red-300 bg-red-100/50'
+                    )}
+                    style={{
+                      top: getMinutesSinceStartOfDay(dragPreview.start) / 60 * HOUR_HEIGHT,
+                      height: Math.max(
+                        (Math.min(dragPreview.end.getTime(), dayEnd.getTime()) - dragPreview.start.getTime()) / 60000,
+                        MIN_APPOINTMENT_MINUTES
+                      ) / 60 * HOUR_HEIGHT,
+                    }}
+                  />
+                )}
               </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  // Render week view
+  const renderWeekView = () => {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {/* Week day headers */}
+        <div className="flex border-b border-gray-200 bg-gray-50">
+          <div className="w-16 flex-shrink-0 border-r border-gray-200"></div>
+          {viewDates.map((date, index) => {
+            const isSelected = selectedDate && isSameDay(date, selectedDate);
+
+            return (
+              <div
+                key={date.toISOString()}
+                className={cn(
+                  'flex-1 min-w-0 px-3 py-2 text-center text-sm font-medium text-gray-700 cursor-pointer',
+                  'border-r border-gray-200 last:border-r-0 hover:bg-gray-100',
+                  {
+                    'bg-blue-50': isSelected,
+                    'bg-yellow-50': isTodayInTimeZone(viewDates[index], timeZone) && !isSelected,
+                  }
+                )}
+                onClick={() => handleDateClick(viewDates[index])}
+              >
+                <div>{formatDate(date, 'EEE', locale)}</div>
+                <div className="text-xs text-gray-500">
+                  {formatDate(date, 'MMM dd', locale)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {renderTimeGrid(viewDates.map((date) => ({
+          key: date.toISOString(),
+          date,
+          appointments: getAppointmentsForDate(date),
+        })), (appointment, start, end) => (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium truncate">{appointment.title}</span>
+              <div className={getAppointmentPriorityClasses(appointment.priority)}></div>
             </div>
-          );
-        })}
+            <div className="text-xs text-gray-600">
+              {formatTime(start, is24h, locale)} - 
+              {formatTime(end, is24h, locale)}
+            </div>
+            {appointment.location && (
+              <div className="text-xs text-gray-500 truncate">
+                📍 {appointment.location}
+              </div>
+            )}
+          </>
+        ))}
       </div>
     );
   };
 
   // Render day view
   const renderDayView = () => {
-    const dayAppointments = getAppointmentsForDate(currentDate);
-    const isTodayDate = isCurrentDay(currentDate);
+    const dayAppointments = getAppointmentsForDate(dayViewDate);
+    const isTodayDate = isTodayInTimeZone(dayViewDate, timeZone);
 
     return (
       <div className="bg-white rounded-lg shadow-sm border">
@@ -394,159 +1223,199 @@ export const Calendar: React.FC<CalendarProps> = ({
           }
         )}>
           <h3 className="text-lg font-semibold text-gray-900">
-            {formatDate(currentDate, 'EEEE, MMMM dd, yyyy')}
+            {formatDate(dayViewDate, 'EEEE, MMMM dd, yyyy', locale)}
           </h3>
           <p className="text-sm text-gray-600">
-            {dayAppointments.length} appointment{dayAppointments.length !== 1 ? 's' : ''}
+            {dayAppointments.length === 0
+              ? messages.noAppointmentsForDay
+              : formatAppointmentCount(messages, dayAppointments.length)}
           </p>
         </div>
         
-        <div className="p-4">
-          {dayAppointments.length === 0 ? (
-            <div className="text-center py-8 text-gray-500">
-              No appointments scheduled for this day
+        {renderTimeGrid([{
+          key: dayViewDate.toISOString(),
+          date: dayViewDate,
+          appointments: dayAppointments,
+        }], (appointment, start, end) => (
+          <div className="px-1">
+            <div className="flex items-start justify-between">
+              <h4 className="text-sm font-semibold text-gray-900 truncate">
+                {appointment.title}
+              </h4>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <div className={getAppointmentPriorityClasses(appointment.priority)}></div>
+                <span className={getAppointmentStatusClasses(appointment.status)}>
+                  {getStatusLabel(appointment.status)}
+                </span>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-x-4 text-xs text-gray-600">
+              <span>
+                {formatTime(start, is24h, locale)} - 
+                {formatTime(end, is24h, locale)}
+              </span>
+              {appointment.type && <span>{getTypeLabel(appointment.type)}</span>}
+              {appointment.patientName && (
+                <span>👤 {appointment.patientName}</span>
+              )}
+              {appointment.doctorName && (
+                <span>👨‍⚕️ {appointment.doctorName}</span>
+              )}
+              {appointment.location && (
+                <span>
+                  {appointment.isOnlineAppointment ? '🖥️ ' : '🏥 '}
+                  {appointment.location}
+                </span>
+              )}
+              {appointment.meetingLink && (
+                <a
+                  href={appointment.meetingLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {messages.joinMeeting}
+                </a>
+              )}
+              {showIcsDownload && !appointment.isBusy && (
+                <button
+                  type="button"
+                  className="text-blue-600 hover:underline"
+                  onClick={(e) => handleDownloadICS(e, appointment)}
+                >
+                  {messages.downloadIcs}
+                </button>
+              )}
             </div>
-          ) : (
-            <div className="space-y-3">
-              {dayAppointments.map((appointment) => (
+
+            {appointment.description && (
+              <p className="text-xs text-gray-600 mt-1">{appointment.description}</p>
+            )}
+
+            {/* Medical Information */}
+            {appointment.symptoms && appointment.symptoms.length > 0 && (
+              <div className="text-xs text-gray-600 mt-1">
+                <span className="font-medium text-gray-700">{messages.symptomsLabel}</span> {appointment.symptoms.join(', ')}
+              </div>
+            )}
+
+            {appointment.diagnosis && (
+              <div className="text-xs text-gray-600">
+                <span className="font-medium text-gray-700">{messages.diagnosisLabel}</span> {appointment.diagnosis}
+              </div>
+            )}
+
+            {appointment.prescription && appointment.prescription.length > 0 && (
+              <div className="text-xs text-gray-600">
+                <span className="font-medium text-gray-700">{messages.prescriptionLabel}</span> {appointment.prescription.join(', ')}
+              </div>
+            )}
+
+            {appointment.followUpRequired && (
+              <div className="text-xs text-gray-600">
+                <span className="font-medium text-gray-700">{messages.followUpRequiredLabel}</span>{' '}
+                {appointment.followUpDate ? 
+                  formatMessage(messages.followUpScheduledFor, {
+                    date: formatDateInTimeZone(parseISODate(appointment.followUpDate)!, timeZone, 'MMM dd, yyyy', locale),
+                  }) :
+                  messages.followUpToBeDetermined
+                }
+              </div>
+            )}
+
+            {appointment.notes && (
+              <div className="text-xs text-gray-600">
+                <span className="font-medium text-gray-700">{messages.notesLabel}</span> {appointment.notes}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Render resource view with one column per doctor on a shared time axis
+  const renderResourceView = () => {
+    const dayAppointments = getAppointmentsForDate(dayViewDate);
+    const isTodayDate = isTodayInTimeZone(dayViewDate, timeZone);
+
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <div className={cn(
+          'p-4 border-b',
+          {
+            'bg-yellow-50': isTodayDate,
+            'bg-white': !isTodayDate,
+          }
+        )}>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {formatDate(dayViewDate, 'EEEE, MMMM dd, yyyy', locale)}
+          </h3>
+        </div>
+
+        {resources.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            {messages.noResources}
+          </div>
+        ) : (
+          <>
+            {/* Resource headers */}
+            <div className="flex border-b border-gray-200 bg-gray-50">
+              <div className="w-16 flex-shrink-0 border-r border-gray-200"></div>
+              {resources.map((resource) => (
                 <div
-                  key={appointment.id}
-                  className={cn(
-                    'p-4 rounded-lg border cursor-pointer transition-all',
-                    'hover:shadow-md',
-                    getAppointmentCardClasses(appointment.status, appointment.priority)
-                  )}
-                  onClick={() => handleAppointmentClick(appointment)}
-                  onDoubleClick={() => handleAppointmentDoubleClick(appointment)}
+                  key={resource.id}
+                  className="flex-1 min-w-0 px-3 py-2 text-center border-r border-gray-200 last:border-r-0"
                 >
-                  <div className="flex items-start justify-between mb-2">
-                    <div className="flex-1">
-                      <h4 className="text-lg font-semibold text-gray-900 mb-1">
-                        {appointment.title}
-                      </h4>
-                      {appointment.description && (
-                        <p className="text-sm text-gray-600 mb-2">
-                          {appointment.description}
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <div className={getAppointmentPriorityClasses(appointment.priority)}></div>
-                      <span className={getAppointmentStatusClasses(appointment.status)}>
-                        {appointment.status}
-                      </span>
-                    </div>
-                  </div>
-                  
-                  <div className="grid grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <span className="font-medium text-gray-700">Time:</span>
-                      <div className="text-gray-600">
-                        {formatTime(parseISODate(appointment.startTime)!, defaultConfig.timeFormat === '24h')} - 
-                        {formatTime(parseISODate(appointment.endTime)!, defaultConfig.timeFormat === '24h')}
-                      </div>
-                    </div>
-                    <div>
-                      <span className="font-medium text-gray-700">Type:</span>
-                      <div className="text-gray-600 capitalize">{appointment.type?.replace('_', ' ')}</div>
-                    </div>
-                    {appointment.patientName && (
-                      <div>
-                        <span className="font-medium text-gray-700">Patient:</span>
-                        <div className="text-gray-600">{appointment.patientName}</div>
-                      </div>
-                    )}
-                    {appointment.doctorName && (
-                      <div>
-                        <span className="font-medium text-gray-700">Doctor:</span>
-                        <div className="text-gray-600">{appointment.doctorName}</div>
-                      </div>
-                    )}
-                    {appointment.location && (
-                      <div>
-                        <span className="font-medium text-gray-700">Location:</span>
-                        <div className="text-gray-600">
-                          {appointment.isOnlineAppointment ? '🖥️ ' : '🏥 '}
-                          {appointment.location}
-                        </div>
-                      </div>
-                    )}
-                    {appointment.meetingLink && (
-                      <div>
-                        <span className="font-medium text-gray-700">Meeting Link:</span>
-                        <div className="text-blue-600">
-                          <a href={appointment.meetingLink} target="_blank" rel="noopener noreferrer" className="hover:underline">
-                            Join Meeting
-                          </a>
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                  
-                  {/* Medical Information */}
-                  {appointment.symptoms && appointment.symptoms.length > 0 && (
-                    <div className="mt-3 pt-3 border-t">
-                      <span className="font-medium text-gray-700">Symptoms:</span>
-                      <div className="text-sm text-gray-600 mt-1">
-                        {appointment.symptoms.join(', ')}
-                      </div>
-                    </div>
-                  )}
-                  
-                  {appointment.diagnosis && (
-                    <div className="mt-3 pt-3 border-t">
-                      <span className="font-medium text-gray-700">Diagnosis:</span>
-                      <div className="text-sm text-gray-600 mt-1">{appointment.diagnosis}</div>
-                    </div>
-                  )}
-                  
-                  {appointment.prescription && appointment.prescription.length > 0 && (
-                    <div className="mt-3 pt-3 border-t">
-                      <span className="font-medium text-gray-700">Prescription:</span>
-                      <div className="text-sm text-gray-600 mt-1">
-                        {appointment.prescription.join(', ')}
-                      </div>
-                    </div>
-                  )}
-                  
-                  {appointment.followUpRequired && (
-                    <div className="mt-3 pt-3 border-t">
-                      <span className="font-medium text-gray-700">Follow-up Required:</span>
-                      <div className="text-sm text-gray-600 mt-1">
-                        {appointment.followUpDate ? 
-                          `Scheduled for ${formatDate(parseISODate(appointment.followUpDate)!, 'MMM dd, yyyy')}` : 
-                          'Date to be determined'
-                        }
-                      </div>
-                    </div>
-                  )}
-                  
-                  {appointment.notes && (
-                    <div className="mt-3 pt-3 border-t">
-                      <span className="font-medium text-gray-700">Notes:</span>
-                      <div className="text-sm text-gray-600 mt-1">{appointment.notes}</div>
-                    </div>
+                  <div className="text-sm font-medium text-gray-700 truncate">{resource.name}</div>
+                  {resource.specialty && (
+                    <div className="text-xs text-gray-500 truncate">{resource.specialty}</div>
                   )}
                 </div>
               ))}
             </div>
-          )}
-        </div>
+
+            {renderTimeGrid(resources.map((resource) => ({
+              key: resource.id,
+              date: dayViewDate,
+              appointments: getAppointmentsForResource(dayAppointments, resource.id),
+              resource,
+            })), (appointment, start, end) => (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium truncate">{appointment.title}</span>
+                  <div className={getAppointmentPriorityClasses(appointment.priority)}></div>
+                </div>
+                <div className="text-xs text-gray-600">
+                  {formatTime(start, is24h, locale)} - 
+                  {formatTime(end, is24h, locale)}
+                </div>
+                {appointment.patientName && (
+                  <div className="text-xs text-gray-500 truncate">
+                    👤 {appointment.patientName}
+                  </div>
+                )}
+              </>
+            ))}
+          </>
+        )}
       </div>
     );
   };
 
   // Render agenda view
   const renderAgendaView = () => {
-    const sortedAppointments = [...filteredAppointments].sort((a, b) => 
+    const sortedAppointments = [...displayedAppointments].sort((a, b) => 
       new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
     );
 
     return (
       <div className="space-y-4">
         {sortedAppointments.map((appointment) => {
-          const startDate = parseISODate(appointment.startTime);
-          const endDate = parseISODate(appointment.endTime);
+          const startDate = toZoned(appointment.startTime);
+          const endDate = toZoned(appointment.endTime);
           
           if (!startDate || !endDate) return null;
 
@@ -554,32 +1423,45 @@ export const Calendar: React.FC<CalendarProps> = ({
             <div
               key={appointment.id}
               className={cn(
-                'p-4 rounded-lg border cursor-pointer transition-all',
-                'hover:shadow-md',
-                getAppointmentCardClasses(appointment.status, appointment.priority)
+                'p-4 rounded-lg transition-all',
+                appointment.isBusy
+                  ? getBusyBlockClasses()
+                  : [
+                    'border cursor-pointer hover:shadow-md',
+                    getAppointmentCardClasses(
+                      appointment.status,
+                      appointment.priority,
+                      false,
+                      conflictingIds.has(appointment.id)
+                    ),
+                  ]
               )}
+              title={conflictingIds.has(appointment.id) ? messages.conflictingAppointment : undefined}
               onClick={() => handleAppointmentClick(appointment)}
               onDoubleClick={() => handleAppointmentDoubleClick(appointment)}
             >
               <div className="flex items-start space-x-4">
                 <div className="flex-shrink-0">
                   <div className="text-sm font-medium text-gray-900">
-                    {formatDate(startDate, 'MMM dd')}
+                    {formatDate(startDate, 'MMM dd', locale)}
                   </div>
                   <div className="text-xs text-gray-500">
-                    {formatTime(startDate, defaultConfig.timeFormat === '24h')}
+                    {formatTime(startDate, is24h, locale)}
                   </div>
                 </div>
                 
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between mb-1">
                     <h4 className="text-lg font-semibold text-gray-900 truncate">
+                      {appointment.recurrence && (
+                        <span className="mr-1" title={messages.recurringAppointment}>🔁</span>
+                      )}
                       {appointment.title}
                     </h4>
                     <div className="flex items-center space-x-2">
                       <div className={getAppointmentPriorityClasses(appointment.priority)}></div>
                       <span className={getAppointmentStatusClasses(appointment.status)}>
-                        {appointment.status}
+                        {getStatusLabel(appointment.status)}
                       </span>
                     </div>
                   </div>
@@ -590,10 +1472,10 @@ export const Calendar: React.FC<CalendarProps> = ({
                   
                   <div className="flex items-center space-x-4 text-sm text-gray-500">
                     <span>
-                      {formatTime(startDate, defaultConfig.timeFormat === '24h')} - 
-                      {formatTime(endDate, defaultConfig.timeFormat === '24h')}
+                      {formatTime(startDate, is24h, locale)} - 
+                      {formatTime(endDate, is24h, locale)}
                     </span>
-                    <span className="capitalize">{appointment.type?.replace('_', ' ')}</span>
+                    {appointment.type && <span>{getTypeLabel(appointment.type)}</span>}
                     {appointment.location && (
                       <span>
                         {appointment.isOnlineAppointment ? '🖥️' : '🏥'} {appointment.location}
@@ -605,6 +1487,15 @@ export const Calendar: React.FC<CalendarProps> = ({
                     {appointment.doctorName && (
                       <span>👨‍⚕️ {appointment.doctorName}</span>
                     )}
+                    {showIcsDownload && !appointment.isBusy && (
+                      <button
+                        type="button"
+                        className="text-blue-600 hover:underline"
+                        onClick={(e) => handleDownloadICS(e, appointment)}
+                      >
+                        {messages.downloadIcs}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -614,19 +1505,29 @@ export const Calendar: React.FC<CalendarProps> = ({
         
         {sortedAppointments.length === 0 && (
           <div className="text-center py-8 text-gray-500">
-            No appointments found for the selected period
+            {messages.noAppointmentsForPeriod}
           </div>
         )}
       </div>
     );
   };
 
-  // Render loading state
+  // Views offered by the header switcher
+  const viewOptions = [
+    { value: CalendarView.MONTH, label: messages.viewMonth },
+    { value: CalendarView.WEEK, label: messages.viewWeek },
+    { value: CalendarView.WORK_WEEK, label: messages.viewWorkWeek },
+    { value: CalendarView.DAY, label: messages.viewDay },
+    { value: CalendarView.AGENDA, label: messages.viewAgenda },
+    ...(resources.length > 0 ? [{ value: CalendarView.RESOURCE, label: messages.viewResource }] : []),
+  ];
+
+  // Render loading state; ranges loading from the data source are shown above the grid
   if (loading) {
     return (
       <div className={cn('flex items-center justify-center h-64', className)}>
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-        <span className="ml-2 text-gray-600">Loading appointments...</span>
+        <span className="ml-2 text-gray-600">{messages.loadingAppointments}</span>
       </div>
     );
   }
@@ -636,7 +1537,7 @@ export const Calendar: React.FC<CalendarProps> = ({
     return (
       <div className={cn('flex items-center justify-center h-64', className)}>
         <div className="text-center">
-          <div className="text-red-600 mb-2">⚠️ Error loading appointments</div>
+          <div className="text-red-600 mb-2">⚠️ {messages.errorLoadingAppointments}</div>
           <div className="text-sm text-gray-600">{error}</div>
         </div>
       </div>
@@ -649,12 +1550,13 @@ export const Calendar: React.FC<CalendarProps> = ({
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center space-x-4">
           <h2 className="text-2xl font-bold text-gray-900">
-            {formatDate(currentDate, 'MMMM yyyy')}
+            {formatDate(currentDate, 'MMMM yyyy', locale)}
           </h2>
           <div className="flex items-center space-x-2">
             <button
               onClick={handlePrevious}
               className={getNavigationClasses()}
+              aria-label={messages.previous}
             >
               ←
             </button>
@@ -662,31 +1564,181 @@ export const Calendar: React.FC<CalendarProps> = ({
               onClick={handleToday}
               className={getNavigationClasses()}
             >
-              Today
+              {messages.today}
             </button>
             <button
               onClick={handleNext}
               className={getNavigationClasses()}
+              aria-label={messages.next}
             >
               →
             </button>
           </div>
         </div>
         
-        <div className="flex items-center space-x-2">
+        <div className="flex items-center space-x-4">
           <span className="text-sm text-gray-600">
-            {filteredAppointments.length} appointment{filteredAppointments.length !== 1 ? 's' : ''}
+            {formatAppointmentCount(messages, filteredAppointments.length)}
           </span>
+
+          {showCsvExport && (
+            <button
+              type="button"
+              onClick={handleExportCSV}
+              className={getNavigationClasses()}
+              disabled={displayedAppointments.length === 0}
+            >
+              {messages.exportCsv}
+            </button>
+          )}
+
+          {/* View switcher */}
+          {showViewSwitcher && (
+            <div className="inline-flex rounded-md shadow-sm" role="group">
+              {viewOptions.map((option, index) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => handleViewChange(option.value)}
+                  className={cn(
+                    'px-3 py-1.5 text-sm font-medium border border-gray-300 transition-colors',
+                    'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:z-10',
+                    {
+                      'rounded-l-md': index === 0,
+                      'rounded-r-md': index === viewOptions.length - 1,
+                      '-ml-px': index > 0,
+                      'bg-blue-600 text-white border-blue-600': currentView === option.value,
+                      'bg-white text-gray-900 hover:bg-gray-50': currentView !== option.value,
+                    }
+                  )}
+                  aria-pressed={currentView === option.value}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Appointments inside newly added clinic closures */}
+      {closureWarnings.map((warning, index) => (
+        <div
+          key={index}
+          className="flex items-center justify-between mb-4 rounded-md border border-orange-200 bg-orange-50 px-4 py-2 text-sm text-orange-800"
+          role="alert"
+        >
+          <span>
+            ⚠️ {formatMessage(messages.closureOverlapsAppointments, {
+              label: warning.closure.label,
+              appointments: formatAppointmentCount(messages, warning.appointments.length),
+            })}: {warning.appointments.map(apt => apt.title).join(', ')}
+          </span>
+          <button
+            type="button"
+            onClick={() => setClosureWarnings(current => current.filter(item => item !== warning))}
+            className="ml-4 text-orange-700 hover:text-orange-900"
+          >
+            {messages.dismiss}
+          </button>
+        </div>
+      ))}
+
+      {/* Range loading from the data source */}
+      {rangeLoading && (
+        <div className="flex items-center mb-4 rounded-md border border-blue-200 bg-blue-50 px-4 py-2 text-sm text-blue-800" role="status">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span className="ml-2">{messages.loadingAppointments}</span>
+        </div>
+      )}
+      {rangeError && !rangeLoading && (
+        <div
+          className="flex items-center justify-between mb-4 rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-800"
+          role="alert"
+        >
+          <span>⚠️ {messages.errorLoadingAppointments}: {rangeError}</span>
+          <button
+            type="button"
+            onClick={handleRetryRange}
+            className="ml-4 font-medium text-red-700 hover:text-red-900"
+          >
+            {messages.retry}
+          </button>
+        </div>
+      )}
+
       {/* Calendar Content */}
       <div className="calendar-content">
         {defaultConfig.view === CalendarView.MONTH && renderMonthView()}
-        {defaultConfig.view === CalendarView.WEEK && renderWeekView()}
+        {(defaultConfig.view === CalendarView.WEEK || defaultConfig.view === CalendarView.WORK_WEEK) && renderWeekView()}
         {defaultConfig.view === CalendarView.DAY && renderDayView()}
         {defaultConfig.view === CalendarView.AGENDA && renderAgendaView()}
+        {defaultConfig.view === CalendarView.RESOURCE && renderResourceView()}
       </div>
+
+      {/* Built-in form for the selected range */}
+      {formRange && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <AppointmentForm
+              onSubmit={(data) => {
+                reloadAfterCommit([eventHandlers.onAppointmentCreate?.(data)]);
+                setFormRange(null);
+              }}
+              onCancel={() => setFormRange(null)}
+              defaultDate={formRange.date}
+              defaultStartTime={formRange.startTime}
+              defaultEndTime={formRange.endTime}
+              timezone={timeZone}
+              locale={locale}
+              messages={defaultConfig.messages}
+              // Unmasked so patient conflicts are still found; the form masks what it lists
+              appointments={appointments}
+              blockingConflicts={defaultConfig.blockingConflicts}
+              businessHours={defaultConfig.businessHours}
+              schedules={schedules}
+              closures={closures}
+              enumConfig={enumConfig}
+              moderationEnabled={moderationEnabled}
+              currentUserRole={currentUserRole}
+              currentUser={currentUser}
+              policy={policy}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Scope prompt for dragged or resized recurring appointments */}
+      {pendingRecurrenceEdit && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-sm w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{messages.editRecurringTitle}</h3>
+            <div className="flex flex-col space-y-2">
+              {[
+                { scope: RecurrenceEditScope.THIS, label: messages.editScopeThis },
+                { scope: RecurrenceEditScope.FOLLOWING, label: messages.editScopeFollowing },
+                { scope: RecurrenceEditScope.ALL, label: messages.editScopeAll },
+              ].map(option => (
+                <button
+                  key={option.scope}
+                  type="button"
+                  onClick={() => handleRecurrenceEditScope(option.scope)}
+                  className={getNavigationClasses()}
+                >
+                  {option.label}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => setPendingRecurrenceEdit(null)}
+                className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                {messages.cancel}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
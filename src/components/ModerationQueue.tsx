@@ -0,0 +1,450 @@
+import React, { useState, useMemo } from 'react';
+import type { Locale } from 'date-fns';
+import {
+  Appointment,
+  AppointmentAction,
+  AppointmentEnumConfig,
+  CalendarMessages,
+  ModerationDecision,
+  ModerationQueueFilters,
+  ModerationQueueSort,
+  PolicyRule,
+  PolicyUser,
+  UserRole,
+  getConfigurableOptions
+} from '../types';
+import {
+  formatDateInTimeZone,
+  formatTimeInTimeZone,
+  fromZonedDate,
+  parseISODate
+} from '../utils/dateUtils';
+import {
+  filterModerationQueue,
+  getModerationStatus,
+  getPendingModeration,
+  moderateAppointment,
+  sortModerationQueue
+} from '../utils/moderationUtils';
+import { canTransition } from '../utils/statusUtils';
+import { createPermissionCheck, maskAppointment } from '../utils/policyUtils';
+import { getMessages, formatMessage, formatAppointmentCount } from '../utils/messages';
+import { cn, getButtonClasses, getInputClasses, getAppointmentPriorityClasses } from '../utils/classNames';
+
+/**
+ * Props for the ModerationQueue component
+ */
+export interface ModerationQueueProps {
+  // Appointments to review; only those with isModerated false are listed
+  appointments: Appointment[];
+  // Receive the appointment with its status and moderation fields stamped;
+  // each action is hidden without its callback
+  onApprove?: (appointment: Appointment) => void;
+  onReject?: (appointment: Appointment) => void;
+  onReschedule?: (appointment: Appointment) => void;
+  enumConfig?: AppointmentEnumConfig;
+  currentUserRole?: UserRole;
+  // Access policy; only appointments the user may moderate can be decided.
+  // The user's ID is stamped as moderatedBy
+  currentUser?: PolicyUser;
+  policy?: PolicyRule[];
+  defaultFilters?: ModerationQueueFilters;
+  defaultSort?: ModerationQueueSort;
+  // IANA time zone times are shown and entered in (default 'UTC')
+  timezone?: string;
+  timeFormat?: '12h' | '24h';
+  // Localization (English when omitted)
+  locale?: Locale;
+  messages?: Partial<CalendarMessages>;
+  className?: string;
+}
+
+/**
+ * Decision being confirmed, for one appointment or a bulk approval
+ */
+interface PendingDecision {
+  decision: ModerationDecision;
+  ids: string[];
+  bulk: boolean;
+}
+
+/**
+ * Review queue for appointment requests awaiting moderation
+ * Moderators approve, reject or reschedule each request with notes explaining
+ * the decision, or approve several at once.
+ */
+export const ModerationQueue: React.FC<ModerationQueueProps> = ({
+  appointments,
+  onApprove,
+  onReject,
+  onReschedule,
+  enumConfig,
+  currentUserRole,
+  currentUser,
+  policy,
+  defaultFilters = {},
+  defaultSort = 'startTime',
+  timezone = 'UTC',
+  timeFormat = '12h',
+  locale,
+  messages: messageOverrides,
+  className,
+}) => {
+  const messages = getMessages(locale, messageOverrides);
+  const is24h = timeFormat === '24h';
+  const priorityOptions = getConfigurableOptions(enumConfig, 'priorities');
+  const typeOptions = getConfigurableOptions(enumConfig, 'types');
+
+  const [filters, setFilters] = useState<ModerationQueueFilters>(defaultFilters);
+  const [sortBy, setSortBy] = useState<ModerationQueueSort>(defaultSort);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pending, setPending] = useState<PendingDecision | null>(null);
+  const [notes, setNotes] = useState('');
+  const [newStart, setNewStart] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const pendingAppointments = useMemo(() => getPendingModeration(appointments), [appointments]);
+  const queue = useMemo(
+    () => sortModerationQueue(filterModerationQueue(pendingAppointments, filters), sortBy),
+    [pendingAppointments, filters, sortBy]
+  );
+
+  // Doctors with pending requests, for the doctor filter
+  const doctors = useMemo(() => {
+    const byId = new Map<string, string>();
+    pendingAppointments.forEach(apt => {
+      if (apt.doctorId) byId.set(apt.doctorId, apt.doctorName || apt.doctorId);
+    });
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [pendingAppointments]);
+
+  const isAllowed = createPermissionCheck(currentUser, policy);
+  const callbacks: Record<ModerationDecision, ((appointment: Appointment) => void) | undefined> = {
+    [ModerationDecision.APPROVE]: onApprove,
+    [ModerationDecision.REJECT]: onReject,
+    [ModerationDecision.RESCHEDULE]: onReschedule,
+  };
+
+  // A decision is offered when it is handled, the user may moderate the
+  // appointment and the status workflow allows the resulting status
+  const canDecide = (appointment: Appointment, decision: ModerationDecision) => {
+    return (
+      !!callbacks[decision] &&
+      isAllowed(AppointmentAction.MODERATE, appointment) &&
+      canTransition(enumConfig, appointment.status, getModerationStatus(decision), { userRole: currentUserRole })
+    );
+  };
+
+  const approvableIds = queue.filter(apt => canDecide(apt, ModerationDecision.APPROVE)).map(apt => apt.id);
+  const selectedApprovableIds = selectedIds.filter(id => approvableIds.includes(id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current => current.includes(id) ? current.filter(selected => selected !== id) : [...current, id]);
+  };
+
+  const openDecision = (decision: ModerationDecision, ids: string[], bulk: boolean = false) => {
+    const appointment = queue.find(apt => apt.id === ids[0]);
+    const start = appointment && parseISODate(appointment.startTime);
+    setPending({ decision, ids, bulk });
+    setNotes('');
+    setNewStart(start ? formatDateInTimeZone(start, timezone, "yyyy-MM-dd'T'HH:mm") : '');
+    setError(null);
+  };
+
+  const closeDecision = () => {
+    setPending(null);
+    setError(null);
+  };
+
+  // Stamp and report the decision; nothing is reported unless every appointment can take it
+  const confirmDecision = () => {
+    if (!pending) return;
+
+    const trimmedNotes = notes.trim();
+    if (!trimmedNotes) {
+      setError(messages.moderationNotesRequired);
+      return;
+    }
+
+    const rescheduledStart = pending.decision === ModerationDecision.RESCHEDULE
+      ? fromZonedDate(newStart, timezone)
+      : undefined;
+    if (rescheduledStart && isNaN(rescheduledStart.getTime())) {
+      setError(messages.startTimeRequired);
+      return;
+    }
+
+    const now = new Date();
+    const decided = queue
+      .filter(apt => pending.ids.includes(apt.id))
+      .map(apt => ({
+        original: apt,
+        moderated: moderateAppointment(apt, pending.decision, {
+          notes: trimmedNotes,
+          moderatorId: currentUser?.userId,
+          newStart: rescheduledStart,
+          now,
+        }),
+      }));
+
+    const blocked = decided.some(({ original, moderated }) =>
+      !canTransition(enumConfig, original.status, moderated.status, {
+        userRole: currentUserRole,
+        appointment: moderated,
+        now,
+      })
+    );
+    if (blocked) {
+      setError(messages.statusFieldsRequired);
+      return;
+    }
+
+    decided.forEach(({ moderated }) => callbacks[pending.decision]?.(moderated));
+    setSelectedIds(current => current.filter(id => !pending.ids.includes(id)));
+    closeDecision();
+  };
+
+  const decisionLabels: Record<ModerationDecision, string> = {
+    [ModerationDecision.APPROVE]: messages.approve,
+    [ModerationDecision.REJECT]: messages.reject,
+    [ModerationDecision.RESCHEDULE]: messages.reschedule,
+  };
+
+  const renderDecisionPanel = () => {
+    if (!pending) return null;
+
+    return (
+      <div className="mt-3 space-y-3 rounded-md border border-gray-200 bg-gray-50 p-3">
+        <h4 className="text-sm font-medium text-gray-900">
+          {pending.bulk
+            ? formatMessage(messages.approveSelected, { count: pending.ids.length })
+            : decisionLabels[pending.decision]}
+        </h4>
+        {pending.decision === ModerationDecision.RESCHEDULE && (
+          <div>
+            <label htmlFor="moderation-new-start" className="block text-sm font-medium text-gray-700 mb-1">
+              {messages.newStartTime}
+            </label>
+            <input
+              type="datetime-local"
+              id="moderation-new-start"
+              value={newStart}
+              onChange={(e) => setNewStart(e.target.value)}
+              className={getInputClasses()}
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="moderation-notes" className="block text-sm font-medium text-gray-700 mb-1">
+            {messages.moderationNotes} *
+          </label>
+          <textarea
+            id="moderation-notes"
+            value={notes}
+            onChange={(e) => {
+              setNotes(e.target.value);
+              setError(null);
+            }}
+            className={getInputClasses(!!error)}
+            placeholder={messages.moderationNotesPlaceholder}
+            rows={2}
+          />
+          {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={closeDecision} className={getButtonClasses('secondary', 'sm')}>
+            {messages.cancel}
+          </button>
+          <button
+            type="button"
+            onClick={confirmDecision}
+            className={getButtonClasses(pending.decision === ModerationDecision.REJECT ? 'danger' : 'primary', 'sm')}
+          >
+            {messages.confirm}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderRow = (appointment: Appointment) => {
+    // Decisions work on the full appointment; the row only shows what the user may see
+    const shown = maskAppointment(appointment, currentUser, { policy, busyTitle: messages.busy });
+    const start = parseISODate(appointment.startTime);
+    const requested = parseISODate(appointment.createdAt);
+    const isPendingRow = !!pending && !pending.bulk && pending.ids[0] === appointment.id;
+    const decisions = [ModerationDecision.APPROVE, ModerationDecision.RESCHEDULE, ModerationDecision.REJECT]
+      .filter(decision => canDecide(appointment, decision));
+
+    return (
+      <li key={appointment.id} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+        <div className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(appointment.id)}
+            onChange={() => toggleSelected(appointment.id)}
+            disabled={!approvableIds.includes(appointment.id)}
+            className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            aria-label={shown.title}
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-900 truncate">
+                {shown.recurrence && (
+                  <span className="mr-1" title={messages.recurringAppointment}>🔁</span>
+                )}
+                {shown.title}
+              </h4>
+              <span className="flex items-center space-x-1 text-xs text-gray-600 flex-shrink-0">
+                <span className={getAppointmentPriorityClasses(shown.priority)}></span>
+                <span>{priorityOptions.find(option => option.value === shown.priority)?.label || shown.priority}</span>
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-x-4 text-xs text-gray-600">
+              {start && (
+                <span>
+                  {formatDateInTimeZone(start, timezone, 'MMM dd, yyyy', locale)}{' '}
+                  {formatTimeInTimeZone(start, timezone, is24h, locale)}
+                </span>
+              )}
+              <span>{typeOptions.find(option => option.value === shown.type)?.label || shown.type}</span>
+              {shown.patientName && <span>👤 {shown.patientName}</span>}
+              {shown.doctorName && <span>👨‍⚕️ {shown.doctorName}</span>}
+              {requested && (
+                <span className="text-gray-400">
+                  {formatMessage(messages.requestedAt, {
+                    date: formatDateInTimeZone(requested, timezone, 'MMM dd, yyyy', locale),
+                  })}
+                </span>
+              )}
+            </div>
+            {shown.description && <p className="mt-1 text-xs text-gray-600">{shown.description}</p>}
+          </div>
+        </div>
+
+        {/* Actions */}
+        {decisions.length > 0 && !isPendingRow && (
+          <div className="mt-3 flex justify-end space-x-2">
+            {decisions.map(decision => (
+              <button
+                key={decision}
+                type="button"
+                onClick={() => openDecision(decision, [appointment.id])}
+                className={getButtonClasses(
+                  decision === ModerationDecision.APPROVE ? 'primary' : decision === ModerationDecision.REJECT ? 'danger' : 'secondary',
+                  'sm'
+                )}
+              >
+                {decisionLabels[decision]}
+              </button>
+            ))}
+          </div>
+        )}
+        {isPendingRow && renderDecisionPanel()}
+      </li>
+    );
+  };
+
+  const allSelected = approvableIds.length > 0 && approvableIds.every(id => selectedIds.includes(id));
+
+  return (
+    <div className={cn('moderation-queue', className)}>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">{messages.moderationQueue}</h2>
+        <span className="text-sm text-gray-500">{formatAppointmentCount(messages, queue.length)}</span>
+      </div>
+
+      {/* Filters and sorting */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+        <input
+          type="search"
+          value={filters.search || ''}
+          onChange={(e) => setFilters(current => ({ ...current, search: e.target.value }))}
+          className={cn(getInputClasses(), 'md:col-span-2')}
+          placeholder={messages.searchRequests}
+          aria-label={messages.searchRequests}
+        />
+        <select
+          value={filters.priority || ''}
+          onChange={(e) => setFilters(current => ({ ...current, priority: e.target.value || undefined }))}
+          className={getInputClasses()}
+          aria-label={messages.priority}
+        >
+          <option value="">{messages.allPriorities}</option>
+          {priorityOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.type || ''}
+          onChange={(e) => setFilters(current => ({ ...current, type: e.target.value || undefined }))}
+          className={getInputClasses()}
+          aria-label={messages.appointmentType}
+        >
+          <option value="">{messages.allTypes}</option>
+          {typeOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.doctorId || ''}
+          onChange={(e) => setFilters(current => ({ ...current, doctorId: e.target.value || undefined }))}
+          className={getInputClasses()}
+          aria-label={messages.doctorName}
+        >
+          <option value="">{messages.allDoctors}</option>
+          {doctors.map(doctor => (
+            <option key={doctor.id} value={doctor.id}>{doctor.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => setSelectedIds(allSelected ? [] : approvableIds)}
+            disabled={approvableIds.length === 0}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="ml-2">{messages.selectAll}</span>
+        </label>
+        <div className="flex items-center space-x-2">
+          <label htmlFor="moderation-sort" className="text-sm text-gray-700">{messages.sortBy}</label>
+          <select
+            id="moderation-sort"
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as ModerationQueueSort)}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="startTime">{messages.sortByStartTime}</option>
+            <option value="createdAt">{messages.sortByCreatedAt}</option>
+            <option value="priority">{messages.sortByPriority}</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => openDecision(ModerationDecision.APPROVE, selectedApprovableIds, true)}
+            disabled={selectedApprovableIds.length === 0}
+            className={getButtonClasses('primary', 'sm')}
+          >
+            {formatMessage(messages.approveSelected, { count: selectedApprovableIds.length })}
+          </button>
+        </div>
+      </div>
+
+      {/* Bulk approval */}
+      {pending?.bulk && <div className="mb-4">{renderDecisionPanel()}</div>}
+
+      {queue.length === 0 ? (
+        <div className="py-8 text-center text-sm text-gray-500">{messages.noPendingRequests}</div>
+      ) : (
+        <ul className="space-y-3">
+          {queue.map(renderRow)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ModerationQueue;
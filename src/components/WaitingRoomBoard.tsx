@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { addDays } from 'date-fns';
+import type { Locale } from 'date-fns';
+import {
+  Appointment,
+  AppointmentAction,
+  AppointmentEnumConfig,
+  AppointmentPriority,
+  AppointmentStatus,
+  ArrivalState,
+  CalendarMessages,
+  PolicyRule,
+  PolicyUser,
+  RecurrenceEditScope,
+  UserRole,
+  getConfigurableOptions
+} from '../types';
+import {
+  formatTime,
+  toZonedDate,
+  fromZonedDate,
+  getStartOfDay,
+  parseISODate
+} from '../utils/dateUtils';
+import { getAppointmentsForDate } from '../utils/appointmentUtils';
+import { expandRecurringAppointments, updateRecurringAppointment } from '../utils/recurrenceUtils';
+import { canTransition } from '../utils/statusUtils';
+import { createPermissionCheck, maskAppointment } from '../utils/policyUtils';
+import {
+  assignRoom,
+  checkInAppointment,
+  getWaitMinutes,
+  groupByArrivalState
+} from '../utils/waitingRoomUtils';
+import { getMessages, formatMessage, formatAppointmentCount } from '../utils/messages';
+import { cn, getButtonClasses, getAppointmentPriorityClasses } from '../utils/classNames';
+
+/**
+ * Props for the WaitingRoomBoard component
+ */
+export interface WaitingRoomBoardProps {
+  appointments: Appointment[];
+  // Day shown on the board (today when omitted)
+  date?: Date;
+  // Exam rooms offered when taking a patient in; a single button is shown when omitted
+  rooms?: string[];
+  // Receives appointments changed by check-in or rooming (and recurring series split by them)
+  onAppointmentUpdate?: (appointment: Appointment) => void;
+  onAppointmentCreate?: (appointment: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  enumConfig?: AppointmentEnumConfig;
+  currentUserRole?: UserRole;
+  // Access policy; patients the current user may not see are shown as busy, and
+  // checking in and rooming need EDIT and CHANGE_STATUS permission
+  currentUser?: PolicyUser;
+  policy?: PolicyRule[];
+  // IANA time zone the day and times are shown in (default 'UTC')
+  timezone?: string;
+  timeFormat?: '12h' | '24h';
+  // Localization (English when omitted)
+  locale?: Locale;
+  messages?: Partial<CalendarMessages>;
+  // Milliseconds between wait timer updates
+  refreshInterval?: number;
+  className?: string;
+}
+
+// Waits at least this long are highlighted
+const LONG_WAIT_MINUTES = 30;
+
+/**
+ * Front desk board of the day's patients
+ * Shows today's appointments in columns by arrival state, with emergencies at
+ * the top of each column and live wait timers.
+ */
+export const WaitingRoomBoard: React.FC<WaitingRoomBoardProps> = ({
+  appointments,
+  date,
+  rooms = [],
+  onAppointmentUpdate,
+  onAppointmentCreate,
+  enumConfig,
+  currentUserRole,
+  currentUser,
+  policy,
+  timezone = 'UTC',
+  timeFormat = '12h',
+  locale,
+  messages: messageOverrides,
+  refreshInterval = 30000,
+  className,
+}) => {
+  const messages = getMessages(locale, messageOverrides);
+  const is24h = timeFormat === '24h';
+  const priorityOptions = getConfigurableOptions(enumConfig, 'priorities');
+
+  // Keep the wait timers running
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), refreshInterval);
+    return () => clearInterval(timer);
+  }, [refreshInterval]);
+
+  // The day's appointments, including occurrences of recurring appointments
+  const dayTime = date?.getTime();
+  const groups = useMemo(() => {
+    const day = getStartOfDay(toZonedDate(dayTime === undefined ? new Date() : new Date(dayTime), timezone));
+    const dayAppointments = getAppointmentsForDate(
+      expandRecurringAppointments(
+        appointments,
+        fromZonedDate(day, timezone),
+        fromZonedDate(addDays(day, 1), timezone),
+        timezone
+      ),
+      day,
+      timezone
+    );
+    return groupByArrivalState(dayAppointments);
+  }, [appointments, dayTime, timezone]);
+
+  const occupiedRooms = groups[ArrivalState.IN_ROOM].map(apt => apt.room).filter(Boolean);
+
+  // Report a changed appointment; occurrences are split off their series first
+  const commitUpdate = (original: Appointment, updated: Appointment) => {
+    if (!original.recurringAppointmentId) {
+      onAppointmentUpdate?.(updated);
+      return;
+    }
+
+    const series = appointments.find(apt => apt.id === original.recurringAppointmentId);
+    if (!series) return;
+
+    const result = updateRecurringAppointment(series, original, updated, RecurrenceEditScope.THIS, timezone);
+    result.updated.forEach(apt => onAppointmentUpdate?.(apt));
+    result.created.forEach(apt => onAppointmentCreate?.(apt));
+  };
+
+  // Access policy for the current user (no restrictions without a user)
+  const isAllowed = useMemo(() => createPermissionCheck(currentUser, policy), [currentUser, policy]);
+
+  const canCheckIn = (appointment: Appointment) => {
+    return isAllowed(AppointmentAction.EDIT, appointment, 'checkedInAt');
+  };
+
+  const canTakeToRoom = (appointment: Appointment) => {
+    return (
+      isAllowed(AppointmentAction.CHANGE_STATUS, appointment) &&
+      canTransition(enumConfig, appointment.status, AppointmentStatus.IN_PROGRESS, {
+        userRole: currentUserRole,
+        appointment,
+        now,
+      })
+    );
+  };
+
+  const columns = [
+    { state: ArrivalState.EXPECTED, label: messages.arrivalExpected },
+    { state: ArrivalState.CHECKED_IN, label: messages.arrivalCheckedIn },
+    { state: ArrivalState.IN_ROOM, label: messages.arrivalInRoom },
+    { state: ArrivalState.DONE, label: messages.arrivalDone },
+  ];
+
+  const renderCard = (appointment: Appointment, state: ArrivalState) => {
+    // Actions work on the full appointment; the card only shows what the user may see
+    const shown = maskAppointment(appointment, currentUser, { policy, busyTitle: messages.busy });
+    const start = parseISODate(appointment.startTime);
+    const waitMinutes = getWaitMinutes(appointment, now);
+    const isEmergency = appointment.priority === AppointmentPriority.EMERGENCY;
+    const isActionable = !!onAppointmentUpdate && !shown.isBusy;
+
+    return (
+      <div
+        key={appointment.id}
+        className={cn(
+          'rounded-md border bg-white p-3 shadow-sm',
+          isEmergency ? 'border-red-300 ring-1 ring-red-300' : 'border-gray-200'
+        )}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-gray-500">
+            {start && formatTime(toZonedDate(start, timezone), is24h, locale)}
+          </span>
+          {isEmergency && (
+            <span className="flex items-center space-x-1 text-xs font-medium text-red-700">
+              <span className={getAppointmentPriorityClasses(appointment.priority)}></span>
+              <span>{priorityOptions.find(option => option.value === appointment.priority)?.label}</span>
+            </span>
+          )}
+        </div>
+        <div className="mt-1 text-sm font-semibold text-gray-900 truncate">
+          {shown.patientName || shown.title}
+        </div>
+        {shown.doctorName && (
+          <div className="text-xs text-gray-600 truncate">{shown.doctorName}</div>
+        )}
+        {state === ArrivalState.IN_ROOM && shown.room && (
+          <div className="text-xs text-gray-600">{formatMessage(messages.roomName, { room: shown.room })}</div>
+        )}
+        {waitMinutes !== null && (
+          <div
+            className={cn(
+              'mt-1 text-xs font-medium',
+              state === ArrivalState.CHECKED_IN && waitMinutes >= LONG_WAIT_MINUTES ? 'text-red-600' : 'text-gray-600'
+            )}
+          >
+            ⏱ {formatMessage(state === ArrivalState.IN_ROOM ? messages.inRoomFor : messages.waitingFor, {
+              minutes: waitMinutes,
+            })}
+          </div>
+        )}
+
+        {/* Actions */}
+        {isActionable && state === ArrivalState.EXPECTED && canCheckIn(appointment) && (
+          <button
+            type="button"
+            onClick={() => commitUpdate(appointment, checkInAppointment(appointment))}
+            className={cn(getButtonClasses('primary', 'sm'), 'mt-2 w-full')}
+          >
+            {messages.checkIn}
+          </button>
+        )}
+        {isActionable && state === ArrivalState.CHECKED_IN && (
+          rooms.length > 0 ? (
+            <select
+              value=""
+              onChange={(e) => e.target.value && commitUpdate(appointment, assignRoom(appointment, e.target.value))}
+              className="mt-2 w-full rounded-md border border-gray-300 px-2 py-1 text-xs"
+              disabled={!canTakeToRoom(appointment)}
+              aria-label={messages.assignRoom}
+            >
+              <option value="">{messages.assignRoom}</option>
+              {rooms.map(room => (
+                <option key={room} value={room} disabled={occupiedRooms.includes(room)}>
+                  {formatMessage(messages.roomName, { room })}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <button
+              type="button"
+              onClick={() => commitUpdate(appointment, assignRoom(appointment))}
+              className={cn(getButtonClasses('secondary', 'sm'), 'mt-2 w-full')}
+              disabled={!canTakeToRoom(appointment)}
+            >
+              {messages.takeToRoom}
+            </button>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn('waiting-room-board', className)}>
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">{messages.waitingRoom}</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {columns.map(({ state, label }) => (
+          <section key={state} className="rounded-lg bg-gray-50 p-3">
+            <h3 className="flex items-center justify-between mb-3 text-sm font-semibold text-gray-700">
+              <span>{label}</span>
+              <span className="text-xs font-normal text-gray-500">
+                {formatAppointmentCount(messages, groups[state].length)}
+              </span>
+            </h3>
+            <div className="space-y-2">
+              {groups[state].length === 0 ? (
+                <div className="py-4 text-center text-xs text-gray-400">{messages.noPatients}</div>
+              ) : (
+                groups[state].map(appointment => renderCard(appointment, state))
+              )}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WaitingRoomBoard;
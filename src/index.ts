@@ -4,9 +4,30 @@ export * from './types';
 // Export all components
 export { Calendar } from './components/Calendar';
 export { AppointmentForm } from './components/AppointmentForm';
+export { WaitingRoomBoard } from './components/WaitingRoomBoard';
+export { ModerationQueue } from './components/ModerationQueue';
+export { AppointmentHistory } from './components/AppointmentHistory';
+export { AppointmentImport } from './components/AppointmentImport';
 
 // Export utility functions
 export * from './utils/dateUtils';
+export * from './utils/appointmentUtils';
+export * from './utils/recurrenceUtils';
+export * from './utils/conflictUtils';
+export * from './utils/availabilityUtils';
+export * from './utils/scheduleUtils';
+export * from './utils/closureUtils';
+export * from './utils/statusUtils';
+export * from './utils/policyUtils';
+export * from './utils/waitingRoomUtils';
+export * from './utils/moderationUtils';
+export * from './utils/auditUtils';
+export * from './utils/icsUtils';
+export * from './utils/fhirUtils';
+export * from './utils/csvUtils';
+export * from './utils/dataSourceUtils';
+export * from './utils/validation';
+export * from './utils/messages';
 export * from './utils/classNames';
 
 // Export mock data for testing
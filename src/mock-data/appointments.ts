@@ -1,4 +1,4 @@
-import { Appointment, AppointmentStatus, AppointmentPriority, AppointmentType } from '../types';
+import { Appointment, AppointmentStatus, AppointmentPriority, AppointmentType, CalendarResource, ProviderSchedule, ClinicClosure, FhirBundle } from '../types';
 
 /**
  * Mock medical appointments data for testing and development
@@ -79,6 +79,10 @@ export const mockAppointments: Appointment[] = [
     insuranceProvider: 'IMSS',
     insuranceNumber: 'IMSS987654321',
     copay: 50,
+    // Monthly check-ups for the next six months
+    recurrence: {
+      rrule: 'FREQ=MONTHLY;COUNT=6',
+    },
     // Moderation fields
     isModerated: false,
     createdBy: 'patient-002',
@@ -293,6 +297,64 @@ export const mockAppointments: Appointment[] = [
   },
 ];
 
+/**
+ * Mock doctors for the resource view
+ * Ids match the doctorId of the mock appointments
+ */
+export const mockResources: CalendarResource[] = [
+  { id: 'doctor-001', name: 'Dr. Carlos Rodríguez', specialty: 'Cardiology' },
+  { id: 'doctor-002', name: 'Dra. Ana López', specialty: 'Endocrinology' },
+  { id: 'doctor-003', name: 'Dr. Miguel Torres', specialty: 'Internal Medicine' },
+  { id: 'doctor-004', name: 'Dra. Patricia Morales', specialty: 'Neurology' },
+  { id: 'doctor-005', name: 'Dr. Fernando Ruiz', specialty: 'Family Medicine' },
+  { id: 'doctor-006', name: 'Dra. Isabel Castro', specialty: 'Cardiology' },
+  { id: 'doctor-007', name: 'Dr. Alejandro Vega', specialty: 'Dermatology' },
+];
+
+/**
+ * Mock provider schedules for testing availability and the resource view
+ */
+export const mockSchedules: ProviderSchedule[] = [
+  {
+    doctorId: 'doctor-001',
+    doctorName: 'Dr. Carlos Rodríguez',
+    weeklyHours: [1, 2, 3, 4, 5].map(day => ({ day, start: '08:00', end: '16:00' })),
+    breaks: [{ start: '12:00', end: '13:00', label: 'Lunch' }],
+  },
+  {
+    doctorId: 'doctor-002',
+    doctorName: 'Dra. Ana López',
+    weeklyHours: [
+      // Split shift on Monday and Wednesday, mornings on Friday
+      { day: 1, start: '09:00', end: '13:00' },
+      { day: 1, start: '14:00', end: '18:00' },
+      { day: 3, start: '09:00', end: '13:00' },
+      { day: 3, start: '14:00', end: '18:00' },
+      { day: 5, start: '09:00', end: '13:00' },
+    ],
+    exceptions: [
+      { startDate: '2024-01-22', endDate: '2024-01-26', reason: 'Vacation' },
+    ],
+  },
+  {
+    doctorId: 'doctor-003',
+    doctorName: 'Dr. Miguel Torres',
+    weeklyHours: [2, 4].map(day => ({ day, start: '10:00', end: '19:00' })),
+    breaks: [{ start: '14:00', end: '15:00', label: 'Lunch' }],
+    exceptions: [
+      { startDate: '2024-01-18', hours: [{ start: '10:00', end: '13:00' }], reason: 'Conference' },
+    ],
+  },
+];
+
+/**
+ * Mock clinic closures
+ */
+export const mockClosures: ClinicClosure[] = [
+  { id: 'closure-001', label: 'Día de la Constitución', startDate: '2024-02-05' },
+  { id: 'closure-002', label: 'System maintenance', startDate: '2024-01-17', startTime: '12:00', endTime: '14:00' },
+];
+
 /**
  * Mock API response format
  * This represents how the API would return appointment data
@@ -308,3 +370,89 @@ export const mockApiResponse = {
     totalPages: 1,
   },
 };
+
+/**
+ * Mock FHIR R4 search result (Appointment?_include=Appointment:patient)
+ * As an EHR would return it, without this module's code systems. The last
+ * appointment has no participants and is reported by parseFhirBundle.
+ */
+export const mockFhirBundle: FhirBundle = {
+  resourceType: 'Bundle',
+  type: 'searchset',
+  total: 3,
+  entry: [
+    {
+      fullUrl: 'https://ehr.example.org/fhir/Appointment/fhir-apt-001',
+      resource: {
+        resourceType: 'Appointment',
+        id: 'fhir-apt-001',
+        meta: { lastUpdated: '2024-01-10T08:30:00Z' },
+        status: 'booked',
+        appointmentType: {
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0276', code: 'FOLLOWUP', display: 'A follow up visit from a previous appointment' }],
+        },
+        reasonCode: [
+          { coding: [{ system: 'http://snomed.info/sct', code: '38341003', display: 'Hypertension' }] },
+          { text: 'Headaches' },
+        ],
+        priority: 5,
+        description: 'Blood pressure review',
+        start: '2024-01-16T09:00:00Z',
+        end: '2024-01-16T09:30:00Z',
+        created: '2024-01-08T14:12:00Z',
+        participant: [
+          {
+            actor: { reference: 'Patient/patient-001', display: 'María García López' },
+            required: 'required',
+            status: 'accepted',
+          },
+          {
+            type: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ParticipationType', code: 'ATND' }] }],
+            actor: { reference: 'Practitioner/doctor-001', display: 'Dr. Carlos Rodríguez' },
+            required: 'required',
+            status: 'accepted',
+          },
+          {
+            actor: { reference: 'Location/room-101', display: 'Consulta 101' },
+            required: 'information-only',
+            status: 'accepted',
+          },
+        ],
+      },
+    },
+    {
+      fullUrl: 'https://ehr.example.org/fhir/Patient/patient-001',
+      resource: { resourceType: 'Patient', id: 'patient-001' },
+    },
+    {
+      fullUrl: 'https://ehr.example.org/fhir/Appointment/fhir-apt-002',
+      resource: {
+        resourceType: 'Appointment',
+        id: 'fhir-apt-002',
+        status: 'proposed',
+        appointmentType: { text: 'Emergency' },
+        priority: 1,
+        description: 'Chest pain assessment',
+        start: '2024-01-17T15:00:00Z',
+        minutesDuration: 45,
+        participant: [
+          {
+            actor: { reference: 'Patient/patient-004', display: 'Ana Martínez' },
+            status: 'needs-action',
+          },
+        ],
+      },
+    },
+    {
+      fullUrl: 'https://ehr.example.org/fhir/Appointment/fhir-apt-003',
+      resource: {
+        resourceType: 'Appointment',
+        id: 'fhir-apt-003',
+        status: 'booked',
+        start: '2024-01-18T10:00:00Z',
+        end: '2024-01-18T10:30:00Z',
+        participant: [],
+      },
+    },
+  ],
+};
@@ -1,3 +1,5 @@
+import type { Locale } from 'date-fns';
+
 /**
  * Medical appointment status enumeration
  */
@@ -45,6 +47,57 @@ export enum UserRole {
   ADMIN = 'admin',
 }
 
+/**
+ * Actions on appointments checked by the access policy
+ */
+export enum AppointmentAction {
+  VIEW = 'view',
+  CREATE = 'create',
+  EDIT = 'edit', // Optionally for a single field
+  MOVE = 'move', // Drag or resize to new times
+  CANCEL = 'cancel',
+  DELETE = 'delete',
+  CHANGE_STATUS = 'change_status',
+  MODERATE = 'moderate',
+}
+
+/**
+ * Appointment field named in access policy rules
+ */
+export type AppointmentField = keyof Appointment | keyof AppointmentFormData;
+
+/**
+ * Person using the calendar, as seen by the access policy
+ */
+export interface PolicyUser {
+  role: UserRole;
+  userId?: string; // Matched against createdBy
+  patientId?: string; // Set for patients, matched against patientId
+  doctorId?: string; // Set for doctors, matched against doctorId
+}
+
+/**
+ * Condition on the appointment for a policy rule
+ * 'ownAppointment' matches the user's patientId or createdBy; 'assignedProvider'
+ * matches the user's doctorId.
+ */
+export type PolicyCondition =
+  | 'ownAppointment'
+  | 'assignedProvider'
+  | ((user: PolicyUser, appointment: Partial<Appointment>) => boolean);
+
+/**
+ * Rule of an access policy
+ * An action is allowed when an allow rule matches and no deny rule does.
+ */
+export interface PolicyRule {
+  effect?: 'allow' | 'deny'; // Default 'allow'
+  roles: (UserRole | '*')[];
+  actions: (AppointmentAction | '*')[];
+  fields?: AppointmentField[]; // Limits VIEW and EDIT rules to these fields
+  condition?: PolicyCondition;
+}
+
 /**
  * Configurable option interface for dropdowns
  */
@@ -54,6 +107,28 @@ export interface ConfigurableOption {
   description?: string;
   color?: string;
   disabled?: boolean;
+  fhirCode?: string; // FHIR code the value maps to (status code, or coding code for priorities and types)
+}
+
+/**
+ * Allowed status change, checked by canTransition
+ * '*' in `from` or `to` matches any status.
+ */
+export interface StatusTransition {
+  from: string[];
+  to: string[];
+  roles?: UserRole[]; // Roles allowed to make the change (any role when omitted)
+  afterStart?: boolean; // Only once the appointment has started, e.g. for no-shows
+  requiredFields?: (keyof AppointmentFormData)[]; // Fields that must be filled in, e.g. a cancellation reason
+}
+
+/**
+ * Context for checking a status change
+ */
+export interface StatusTransitionOptions {
+  userRole?: UserRole;
+  appointment?: Partial<AppointmentFormData>; // Checked for required fields and its start time
+  now?: Date; // Defaults to the current time
 }
 
 /**
@@ -63,6 +138,7 @@ export interface AppointmentEnumConfig {
   statuses: ConfigurableOption[];
   priorities: ConfigurableOption[];
   types: ConfigurableOption[];
+  statusTransitions?: StatusTransition[]; // Allowed status changes (any change when omitted)
 }
 
 /**
@@ -94,30 +170,491 @@ export interface Appointment {
   diagnosis?: string;
   prescription?: string[];
   notes?: string;
+  cancellationReason?: string;
   followUpRequired?: boolean;
   followUpDate?: string; // ISO 8601 format
   insuranceProvider?: string;
   insuranceNumber?: string;
   copay?: number;
+  // Check-in fields
+  checkedInAt?: string; // ISO 8601 format
+  room?: string; // Exam room the patient was taken to
+  roomedAt?: string; // ISO 8601 format
+  isBusy?: boolean; // Set by maskAppointment on appointments the viewer may only see as busy time
   // Moderation fields
   isModerated?: boolean;
   moderatedBy?: string; // User ID of moderator
   moderatedAt?: string; // ISO 8601 format
   moderationNotes?: string;
+  // Recurrence fields
+  recurrence?: AppointmentRecurrence;
+  recurringAppointmentId?: string; // Series ID, set on occurrences produced by expandRecurrence
+  originalStartTime?: string; // Occurrence start generated by the rule (ISO 8601 format)
   createdBy?: string; // User ID of creator
   createdAt: string; // ISO 8601 format
   updatedAt: string; // ISO 8601 format
   metadata?: Record<string, any>;
 }
 
+/**
+ * Recurrence of a repeating appointment
+ */
+export interface AppointmentRecurrence {
+  rrule: string; // RFC 5545 RRULE, e.g. 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10'
+  exdates?: string[]; // Start times of skipped occurrences (ISO 8601 format)
+}
+
+/**
+ * Parsed RRULE (supported subset of RFC 5545)
+ */
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: { weekday: number; ordinal?: number }[]; // weekday 0-6 (Sunday-Saturday); ordinal 1 = first, -1 = last
+  byMonthDay?: number[]; // 1-31, negative values count from the end of the month
+  byMonth?: number[]; // 1-12
+  weekStart: number; // 0-6 (Sunday-Saturday), from WKST (default Monday)
+}
+
+/**
+ * Which occurrences an edit to a recurring appointment applies to
+ */
+export enum RecurrenceEditScope {
+  THIS = 'this',
+  FOLLOWING = 'following',
+  ALL = 'all',
+}
+
+/**
+ * Appointments to save after editing an occurrence of a recurring appointment
+ */
+export interface RecurrenceEditResult {
+  updated: Appointment[]; // Existing series with new fields, EXDATEs or end date
+  created: Appointment[]; // Appointments split off the series
+}
+
+/**
+ * Kinds of double booking detected by detectConflicts
+ */
+export enum ConflictType {
+  PROVIDER = 'provider',
+  PATIENT = 'patient',
+  LOCATION = 'location',
+}
+
+/**
+ * Appointment or form data checked for conflicts
+ */
+export type ConflictCandidate = Partial<Appointment> & Pick<Appointment, 'startTime' | 'endTime'>;
+
+/**
+ * Existing appointment that overlaps a candidate appointment
+ */
+export interface AppointmentConflict {
+  type: ConflictType;
+  appointment: Appointment;
+}
+
+/**
+ * Search options for findAvailableSlots
+ */
+export interface AvailabilityOptions {
+  businessHours: CalendarConfig['businessHours'];
+  durationMinutes: number;
+  rangeStart: Date;
+  rangeEnd: Date;
+  doctorId?: string; // Only this provider's appointments occupy time (all appointments when no provider is given)
+  doctorName?: string; // Provider name, matched when appointments have no doctorId
+  schedule?: ProviderSchedule; // Provider's working hours, used instead of businessHours
+  closures?: ClinicClosure[]; // Clinic closures, never offered
+  intervalMinutes?: number; // Step between candidate start times (default 30)
+  timeZone?: string; // Zone the business hours are read in (default 'UTC')
+  maxSlots?: number; // Stop after this many slots
+}
+
+/**
+ * Free time slot returned by findAvailableSlots
+ */
+export interface AvailableSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Position of an appointment among the appointments it overlaps with
+ */
+export interface AppointmentLayout {
+  appointment: Appointment;
+  column: number; // Zero-based column within the overlap cluster
+  columnSpan: number; // Number of adjacent free columns the appointment fills
+  columnCount: number; // Total columns in the overlap cluster
+  left: number; // Horizontal offset as a fraction (0-1) of the available width
+  width: number; // Width as a fraction (0-1) of the available width
+}
+
+/**
+ * Where a patient is in their visit, shown as columns of the WaitingRoomBoard
+ */
+export enum ArrivalState {
+  EXPECTED = 'expected',
+  CHECKED_IN = 'checked_in',
+  IN_ROOM = 'in_room', // AppointmentStatus.IN_PROGRESS
+  DONE = 'done',
+}
+
+/**
+ * Where an audited appointment change was made
+ */
+export enum AppointmentChangeSource {
+  FORM = 'form', // AppointmentForm
+  DRAG = 'drag', // Dragged in the calendar
+  RESIZE = 'resize', // Resized in the calendar
+}
+
+/**
+ * A change to one field of an appointment, recorded in the audit trail
+ */
+export interface AppointmentChange {
+  appointmentId: string; // Series ID for changes made to an occurrence of a recurring appointment
+  occurrenceStart?: string; // Original start of the changed occurrence (ISO 8601 format)
+  field: keyof Appointment;
+  before: unknown;
+  after: unknown;
+  actor?: string; // User ID of whoever made the change
+  timestamp: string; // ISO 8601 format
+  reason?: string;
+  source: AppointmentChangeSource;
+}
+
+/**
+ * Decisions a moderator can make on an appointment request
+ */
+export enum ModerationDecision {
+  APPROVE = 'approve', // Status becomes confirmed
+  REJECT = 'reject', // Status becomes cancelled
+  RESCHEDULE = 'reschedule', // Moved to a new time; status becomes rescheduled
+}
+
+/**
+ * Filters for the moderation queue
+ */
+export interface ModerationQueueFilters {
+  search?: string; // Matched against title, patient name and doctor name
+  priority?: string;
+  type?: string;
+  doctorId?: string;
+}
+
+/**
+ * Order of the moderation queue
+ */
+export type ModerationQueueSort = 'startTime' | 'createdAt' | 'priority';
+
 /**
  * Calendar view types
  */
 export enum CalendarView {
   MONTH = 'month',
   WEEK = 'week',
+  WORK_WEEK = 'work_week',
   DAY = 'day',
   AGENDA = 'agenda',
+  RESOURCE = 'resource',
+}
+
+/**
+ * Schedulable resource (doctor/provider) shown as a column in the resource view
+ */
+export interface CalendarResource {
+  id: string; // Matches Appointment.doctorId
+  name: string;
+  specialty?: string;
+}
+
+/**
+ * Block of time on a provider's schedule
+ */
+export interface ScheduleTimeRange {
+  start: string; // HH:mm format
+  end: string; // HH:mm format ('24:00' for midnight)
+}
+
+/**
+ * Weekly shift of a provider; split days have several shifts on the same day
+ */
+export interface ScheduleShift extends ScheduleTimeRange {
+  day: number; // 0-6 (Sunday-Saturday)
+}
+
+/**
+ * Recurring break within a provider's shifts, such as lunch
+ */
+export interface ScheduleBreak extends ScheduleTimeRange {
+  days?: number[]; // 0-6 (Sunday-Saturday), every day when omitted
+  label?: string;
+}
+
+/**
+ * Date-specific change to a provider's weekly schedule
+ * Without hours the provider is off for the whole date range (time off).
+ */
+export interface ScheduleException {
+  startDate: string; // yyyy-MM-dd format
+  endDate?: string; // yyyy-MM-dd format, inclusive (defaults to startDate)
+  hours?: ScheduleTimeRange[]; // Replacement working hours for these dates
+  reason?: string; // e.g. 'Vacation', 'Conference'
+}
+
+/**
+ * Working schedule of a provider
+ */
+export interface ProviderSchedule {
+  doctorId: string; // Matches Appointment.doctorId and CalendarResource.id
+  doctorName?: string; // Used to match appointments without a doctorId
+  weeklyHours: ScheduleShift[];
+  breaks?: ScheduleBreak[];
+  exceptions?: ScheduleException[];
+}
+
+/**
+ * Period when the whole clinic is closed, such as a holiday or maintenance
+ * Without times the closure covers whole days; with times it covers that part
+ * of each date in the range.
+ */
+export interface ClinicClosure {
+  id?: string;
+  label: string; // e.g. 'Independence Day'
+  startDate: string; // yyyy-MM-dd format
+  endDate?: string; // yyyy-MM-dd format, inclusive (defaults to startDate)
+  startTime?: string; // HH:mm format (defaults to the start of the day)
+  endTime?: string; // HH:mm format (defaults to the end of the day)
+}
+
+/**
+ * Unavailable stretch of a provider's or the clinic's day, in minutes since midnight
+ */
+export interface UnavailableRange {
+  start: number;
+  end: number;
+  reason?: string;
+}
+
+/**
+ * UI text used by the calendar components
+ * Templates use {name} placeholders (see formatMessage)
+ */
+export interface CalendarMessages {
+  // Calendar navigation and views
+  today: string;
+  previous: string;
+  next: string;
+  viewMonth: string;
+  viewWeek: string;
+  viewWorkWeek: string;
+  viewDay: string;
+  viewAgenda: string;
+  viewResource: string;
+  appointmentCountOne: string;
+  appointmentCountOther: string;
+  moreAppointments: string;
+  noAppointmentsForDay: string;
+  noAppointmentsForPeriod: string;
+  noResources: string;
+  loadingAppointments: string;
+  errorLoadingAppointments: string;
+  retry: string;
+
+  // Appointment details
+  joinMeeting: string;
+  symptomsLabel: string;
+  diagnosisLabel: string;
+  prescriptionLabel: string;
+  followUpRequiredLabel: string;
+  followUpScheduledFor: string;
+  followUpToBeDetermined: string;
+  notesLabel: string;
+  recurringAppointment: string;
+  conflictingAppointment: string;
+  busy: string;
+  downloadIcs: string;
+
+  // Recurring appointment edits
+  editRecurringTitle: string;
+  applyChangesTo: string;
+  editScopeThis: string;
+  editScopeFollowing: string;
+  editScopeAll: string;
+
+  // Appointment form
+  createAppointmentTitle: string;
+  editAppointmentTitle: string;
+  title: string;
+  titlePlaceholder: string;
+  description: string;
+  descriptionPlaceholder: string;
+  startTime: string;
+  endTime: string;
+  presetThirtyMinutes: string;
+  presetOneHour: string;
+  presetNinetyMinutes: string;
+  presetTwoHours: string;
+  status: string;
+  statusModeratorsOnly: string;
+  statusTransitionNotAllowed: string;
+  statusFieldsRequired: string;
+  cancellationReason: string;
+  cancellationReasonPlaceholder: string;
+  requiredForStatusChange: string;
+  priority: string;
+  appointmentType: string;
+  patientInformation: string;
+  patientName: string;
+  patientNamePlaceholder: string;
+  patientEmail: string;
+  patientEmailPlaceholder: string;
+  patientPhone: string;
+  patientPhonePlaceholder: string;
+  dateOfBirth: string;
+  gender: string;
+  genderPreferNotToSay: string;
+  genderMale: string;
+  genderFemale: string;
+  genderOther: string;
+  medicalInformation: string;
+  doctorName: string;
+  doctorNamePlaceholder: string;
+  doctorSpecialty: string;
+  doctorSpecialtyPlaceholder: string;
+  location: string;
+  locationPlaceholder: string;
+  onlineAppointment: string;
+  meetingLink: string;
+  meetingPassword: string;
+  meetingPasswordPlaceholder: string;
+  additionalInformation: string;
+  symptoms: string;
+  symptomsPlaceholder: string;
+  diagnosis: string;
+  diagnosisPlaceholder: string;
+  prescription: string;
+  prescriptionPlaceholder: string;
+  notes: string;
+  notesPlaceholder: string;
+  followUpRequired: string;
+  followUpDate: string;
+  insuranceProvider: string;
+  insuranceNumber: string;
+  copay: string;
+  repeats: string;
+  repeatNone: string;
+  repeatDaily: string;
+  repeatWeekly: string;
+  repeatBiweekly: string;
+  repeatMonthly: string;
+  repeatCustom: string;
+  occurrenceCount: string;
+  occurrenceCountPlaceholder: string;
+  moderation: string;
+  moderationNotes: string;
+  moderationNotesPlaceholder: string;
+  cancel: string;
+  createAppointment: string;
+  updateAppointment: string;
+  creating: string;
+  updating: string;
+
+  // Scheduling conflicts
+  conflictProvider: string;
+  conflictPatient: string;
+  conflictLocation: string;
+  conflictsBlocking: string;
+  providerUnavailable: string;
+  providerOff: string;
+  clinicClosed: string;
+  closureOverlapsAppointments: string;
+  dismiss: string;
+
+  // Available slots
+  findAvailableSlots: string;
+  noAvailableSlots: string;
+
+  // Waiting room
+  waitingRoom: string;
+  arrivalExpected: string;
+  arrivalCheckedIn: string;
+  arrivalInRoom: string;
+  arrivalDone: string;
+  checkIn: string;
+  takeToRoom: string;
+  assignRoom: string;
+  roomName: string;
+  waitingFor: string;
+  inRoomFor: string;
+  noPatients: string;
+
+  // Moderation queue
+  moderationQueue: string;
+  noPendingRequests: string;
+  searchRequests: string;
+  allPriorities: string;
+  allTypes: string;
+  allDoctors: string;
+  sortBy: string;
+  sortByStartTime: string;
+  sortByCreatedAt: string;
+  sortByPriority: string;
+  requestedAt: string;
+  selectAll: string;
+  approve: string;
+  reject: string;
+  reschedule: string;
+  approveSelected: string;
+  newStartTime: string;
+  confirm: string;
+
+  // Audit trail
+  appointmentHistory: string;
+  noChangesRecorded: string;
+  changeSourceForm: string;
+  changeSourceDrag: string;
+  changeSourceResize: string;
+  unknownActor: string;
+  changeReason: string;
+  changeReasonPlaceholder: string;
+  reasonLabel: string;
+  hiddenValue: string;
+  emptyValue: string;
+  yes: string;
+  no: string;
+
+  // CSV import and export
+  importAppointments: string;
+  chooseCsvFile: string;
+  columnMapping: string;
+  ignoreColumn: string;
+  importPreview: string;
+  rowNumber: string;
+  rowAccepted: string;
+  rowRejected: string;
+  importSummary: string;
+  importAcceptedRows: string;
+  noRowsToImport: string;
+  exportCsv: string;
+
+  // Validation errors
+  titleRequired: string;
+  startTimeRequired: string;
+  endTimeRequired: string;
+  endTimeAfterStart: string;
+  invalidEmail: string;
+  invalidPhone: string;
+  meetingLinkRequired: string;
+  moderationNotesRequired: string;
+  invalidValue: string;
+  invalidDate: string;
+  invalidNumber: string;
 }
 
 /**
@@ -133,6 +670,9 @@ export interface CalendarConfig {
     end: string; // HH:mm format
     days: number[]; // 0-6 (Sunday-Saturday)
   };
+  timeSlotInterval?: number; // Minutes per row in the week/day time grid
+  snapInterval?: number; // Minutes that dragged and resized times snap to
+  agendaDays?: number; // Days listed by the agenda view, from the current date
   timezone: string;
   // Configurable enums
   enumConfig?: AppointmentEnumConfig;
@@ -140,6 +680,14 @@ export interface CalendarConfig {
   moderationEnabled?: boolean;
   allowStatusChange?: boolean; // Only moderators can change status
   currentUserRole?: UserRole;
+  // Localization
+  locale?: Locale; // date-fns locale for dates and bundled UI text
+  messages?: Partial<CalendarMessages>; // Overrides for individual UI strings
+  // Scheduling conflicts
+  blockingConflicts?: ConflictType[]; // Conflict kinds that block saving (others are warnings)
+  // Clinic closures
+  closures?: ClinicClosure[];
+  warnOnClosureConflicts?: boolean; // Warn when a newly added closure covers existing appointments
 }
 
 /**
@@ -152,8 +700,10 @@ export interface CalendarEventHandlers {
   onDateSelect?: (startDate: Date, endDate: Date) => void;
   onViewChange?: (view: CalendarView) => void;
   onAppointmentCreate?: (appointment: Omit<Appointment, 'id' | 'createdAt' | 'updatedAt'>) => void;
-  onAppointmentUpdate?: (appointment: Appointment) => void;
+  onAppointmentUpdate?: (appointment: Appointment) => void; // Also receives recurring series changed by an edit
   onAppointmentDelete?: (appointmentId: string) => void;
+  // Audit records for appointments moved or resized in the calendar
+  onAppointmentChanges?: (changes: AppointmentChange[]) => void;
 }
 
 /**
@@ -182,6 +732,7 @@ export interface AppointmentFormData {
   diagnosis?: string;
   prescription?: string[];
   notes?: string;
+  cancellationReason?: string;
   followUpRequired?: boolean;
   followUpDate?: string;
   insuranceProvider?: string;
@@ -190,6 +741,9 @@ export interface AppointmentFormData {
   // Moderation fields
   isModerated?: boolean;
   moderationNotes?: string;
+  // Recurrence fields
+  recurrence?: AppointmentRecurrence;
+  recurrenceEditScope?: RecurrenceEditScope; // Set when editing an occurrence of a recurring appointment
   metadata?: Record<string, any>;
 }
 
@@ -209,6 +763,169 @@ export interface ApiResponse<T> {
   };
 }
 
+/**
+ * Filters passed to a calendar data source with the range to load
+ */
+export interface CalendarDataFilters {
+  doctorId?: string;
+  patientId?: string;
+  statuses?: string[];
+  types?: string[];
+  search?: string;
+  page?: number; // Page of a paginated response, starting at 1 (set by the calendar)
+}
+
+/**
+ * Source the calendar loads its appointments from, one visible range at a time
+ */
+export interface CalendarDataSource {
+  // Appointments overlapping start to end, including recurring series with occurrences in it
+  fetchRange: (start: Date, end: Date, filters: CalendarDataFilters) => Promise<ApiResponse<Appointment[]>>;
+}
+
+/**
+ * FHIR R4 Coding
+ */
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+/**
+ * FHIR R4 CodeableConcept
+ */
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+/**
+ * FHIR R4 Reference to another resource
+ */
+export interface FhirReference {
+  reference?: string; // e.g. 'Patient/patient-001'
+  display?: string;
+}
+
+/**
+ * FHIR R4 Extension (only the value types the mapping uses)
+ */
+export interface FhirExtension {
+  url: string;
+  valueCode?: string;
+  valueString?: string;
+  valueUrl?: string;
+  valueBoolean?: boolean;
+  valueCodeableConcept?: FhirCodeableConcept;
+}
+
+/**
+ * FHIR R4 Appointment status codes
+ */
+export type FhirAppointmentStatus =
+  | 'proposed'
+  | 'pending'
+  | 'booked'
+  | 'arrived'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'noshow'
+  | 'entered-in-error'
+  | 'checked-in'
+  | 'waitlist';
+
+/**
+ * FHIR R4 Appointment participant
+ */
+export interface FhirAppointmentParticipant {
+  type?: FhirCodeableConcept[];
+  actor?: FhirReference;
+  required?: 'required' | 'optional' | 'information-only';
+  status: 'accepted' | 'declined' | 'tentative' | 'needs-action';
+}
+
+/**
+ * FHIR R4 Appointment resource (the elements the mapping uses)
+ */
+export interface FhirAppointment {
+  resourceType: 'Appointment';
+  id?: string;
+  meta?: { lastUpdated?: string };
+  extension?: FhirExtension[];
+  status: FhirAppointmentStatus;
+  cancelationReason?: FhirCodeableConcept;
+  serviceType?: FhirCodeableConcept[];
+  appointmentType?: FhirCodeableConcept;
+  reasonCode?: FhirCodeableConcept[];
+  priority?: number; // 0 is undefined, 1 is the highest priority
+  description?: string;
+  start?: string;
+  end?: string;
+  minutesDuration?: number;
+  slot?: FhirReference[];
+  created?: string;
+  comment?: string;
+  participant: FhirAppointmentParticipant[];
+}
+
+/**
+ * FHIR R4 Slot resource
+ */
+export interface FhirSlot {
+  resourceType: 'Slot';
+  id?: string;
+  schedule: FhirReference;
+  status: 'busy' | 'free' | 'busy-unavailable' | 'busy-tentative' | 'entered-in-error';
+  start: string;
+  end: string;
+  appointmentType?: FhirCodeableConcept;
+  comment?: string;
+}
+
+/**
+ * FHIR R4 Bundle of resources, e.g. a search result
+ */
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type: 'searchset' | 'collection' | 'batch' | 'transaction' | 'history' | 'document' | 'message';
+  total?: number;
+  entry?: {
+    fullUrl?: string;
+    resource?: FhirAppointment | FhirSlot | { resourceType: string; id?: string };
+  }[];
+}
+
+/**
+ * Appointment form field each CSV column is imported into, by column header
+ * Columns without a field are not imported.
+ */
+export type CsvColumnMapping = Record<string, keyof AppointmentFormData>;
+
+/**
+ * Row of a CSV import with its validation result
+ */
+export interface CsvImportRow {
+  rowNumber: number; // Spreadsheet row number, the header being row 1
+  values: Record<string, string>; // Cell values by column header
+  data: AppointmentFormData;
+  errors: Record<string, string>; // Error messages by field, as shown by AppointmentForm
+  conflicts: AppointmentConflict[]; // Double bookings, including those that do not block the import
+  accepted: boolean;
+}
+
+/**
+ * Report of a CSV import: every row, and the rows accepted and rejected
+ */
+export interface CsvImportReport {
+  headers: string[];
+  mapping: CsvColumnMapping;
+  rows: CsvImportRow[];
+  accepted: CsvImportRow[];
+  rejected: CsvImportRow[];
+}
+
 /**
  * Calendar theme configuration
  */
@@ -280,6 +997,24 @@ export const defaultEnumConfig: AppointmentEnumConfig = {
     { value: AppointmentType.PREVENTIVE_CARE, label: 'Preventive Care' },
     { value: AppointmentType.SPECIALIST_REFERRAL, label: 'Specialist Referral' },
   ],
+  statusTransitions: [
+    { from: [AppointmentStatus.SCHEDULED], to: [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS, AppointmentStatus.RESCHEDULED] },
+    { from: [AppointmentStatus.CONFIRMED], to: [AppointmentStatus.IN_PROGRESS, AppointmentStatus.RESCHEDULED] },
+    { from: [AppointmentStatus.RESCHEDULED], to: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED] },
+    { from: [AppointmentStatus.IN_PROGRESS], to: [AppointmentStatus.COMPLETED] },
+    {
+      from: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED],
+      to: [AppointmentStatus.NO_SHOW],
+      afterStart: true,
+    },
+    {
+      from: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED, AppointmentStatus.RESCHEDULED],
+      to: [AppointmentStatus.CANCELLED],
+      requiredFields: ['cancellationReason'],
+    },
+    // Admins can correct any status
+    { from: ['*'], to: ['*'], roles: [UserRole.ADMIN] },
+  ],
 };
 
 /**
@@ -297,6 +1032,7 @@ export const getConfigurableOptions = (
 
 /**
  * Helper function to check if user can modify appointment status
+ * @deprecated Pass a `currentUser` to use the access policy (see `can`)
  */
 export const canModifyStatus = (
   userRole: UserRole | undefined,
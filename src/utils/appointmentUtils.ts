@@ -0,0 +1,155 @@
+import { isSameDay } from 'date-fns';
+import { Appointment, AppointmentLayout, CalendarResource } from '../types';
+import { parseISODate, toZonedDate } from './dateUtils';
+
+/**
+ * Utility functions for working with collections of appointments
+ */
+
+/**
+ * Get the appointments that take place on a given date
+ * Multi-day appointments are included on every day they span. When a time zone
+ * is given, days are bucketed in that zone and `date` is a zoned date (see toZonedDate).
+ */
+export const getAppointmentsForDate = (appointments: Appointment[], date: Date, timeZone?: string) => {
+  return appointments.filter(apt => {
+    let aptStart = parseISODate(apt.startTime);
+    let aptEnd = parseISODate(apt.endTime);
+    
+    if (!aptStart || !aptEnd) return false;
+
+    if (timeZone) {
+      aptStart = toZonedDate(aptStart, timeZone);
+      aptEnd = toZonedDate(aptEnd, timeZone);
+    }
+    
+    return isSameDay(aptStart, date) || 
+           (aptStart < date && aptEnd > date) ||
+           isSameDay(aptEnd, date);
+  });
+};
+
+/**
+ * Lay out overlapping appointments side by side
+ * Appointments that overlap, directly or through a chain of overlaps, form a
+ * cluster. Each appointment gets a column within its cluster and expands to the
+ * right across any columns that are free for its whole duration.
+ */
+export const layoutOverlappingAppointments = (
+  appointments: Appointment[],
+  minDurationMinutes: number = 0
+): AppointmentLayout[] => {
+  const items = appointments
+    .map(appointment => {
+      const start = parseISODate(appointment.startTime);
+      const end = parseISODate(appointment.endTime);
+      if (!start || !end) return null;
+
+      const minEnd = start.getTime() + minDurationMinutes * 60000;
+      return { appointment, start: start.getTime(), end: Math.max(end.getTime(), minEnd) };
+    })
+    .filter((item): item is { appointment: Appointment; start: number; end: number } => item !== null)
+    .sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const layouts: AppointmentLayout[] = [];
+  let cluster: typeof items = [];
+  let clusterEnd = -Infinity;
+
+  const flushCluster = () => {
+    // Greedily place each appointment in the first column that is free
+    const columns: (typeof items)[] = [];
+    const columnIndexes = cluster.map(item => {
+      let column = columns.findIndex(col => col[col.length - 1].end <= item.start);
+      if (column === -1) {
+        column = columns.length;
+        columns.push([]);
+      }
+      columns[column].push(item);
+      return column;
+    });
+
+    cluster.forEach((item, index) => {
+      const column = columnIndexes[index];
+      let columnSpan = 1;
+
+      while (
+        column + columnSpan < columns.length &&
+        !columns[column + columnSpan].some(other => other.start < item.end && other.end > item.start)
+      ) {
+        columnSpan++;
+      }
+
+      layouts.push({
+        appointment: item.appointment,
+        column,
+        columnSpan,
+        columnCount: columns.length,
+        left: column / columns.length,
+        width: columnSpan / columns.length,
+      });
+    });
+
+    cluster = [];
+  };
+
+  items.forEach(item => {
+    if (cluster.length > 0 && item.start >= clusterEnd) {
+      flushCluster();
+    }
+    cluster.push(item);
+    clusterEnd = cluster.length === 1 ? item.end : Math.max(clusterEnd, item.end);
+  });
+
+  if (cluster.length > 0) {
+    flushCluster();
+  }
+
+  return layouts;
+};
+
+/**
+ * Move an appointment to a new start time, keeping its duration
+ */
+export const moveAppointment = (appointment: Appointment, newStart: Date): Appointment => {
+  const start = parseISODate(appointment.startTime);
+  const end = parseISODate(appointment.endTime);
+  const duration = start && end ? end.getTime() - start.getTime() : 0;
+
+  return {
+    ...appointment,
+    startTime: newStart.toISOString(),
+    endTime: new Date(newStart.getTime() + duration).toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Change an appointment's end time, keeping its start time
+ */
+export const resizeAppointment = (appointment: Appointment, newEnd: Date): Appointment => {
+  return {
+    ...appointment,
+    endTime: newEnd.toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Get the appointments booked with a resource (matched by doctorId)
+ */
+export const getAppointmentsForResource = (appointments: Appointment[], resourceId: string) => {
+  return appointments.filter(apt => apt.doctorId === resourceId);
+};
+
+/**
+ * Reassign an appointment to another resource's doctor
+ */
+export const assignAppointmentToResource = (appointment: Appointment, resource: CalendarResource): Appointment => {
+  return {
+    ...appointment,
+    doctorId: resource.id,
+    doctorName: resource.name,
+    doctorSpecialty: resource.specialty ?? appointment.doctorSpecialty,
+    updatedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,92 @@
+import { Appointment, AppointmentChange, AppointmentChangeSource } from '../types';
+
+/**
+ * Utility functions for the appointment audit trail
+ */
+
+// Bookkeeping fields that change on every save and are not audited
+const UNAUDITED_FIELDS: (keyof Appointment)[] = ['id', 'createdAt', 'updatedAt', 'isBusy'];
+
+// Form defaults fill empty fields with '', [] or false; these count as no value
+const isEmptyValue = (value: unknown) => {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  );
+};
+
+// ISO 8601 date-times, compared as instants so formatting differences are not changes
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T/;
+
+const isSameValue = (a: unknown, b: unknown) => {
+  if (isEmptyValue(a) && isEmptyValue(b)) return true;
+  if (typeof a === 'string' && typeof b === 'string' && ISO_DATE_TIME.test(a) && ISO_DATE_TIME.test(b)) {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+};
+
+/**
+ * List the field-level changes between two versions of an appointment
+ * Changes to an occurrence of a recurring appointment are recorded against its
+ * series, with the occurrence's original start. Empty values (undefined, null,
+ * '', [] and false) are treated as equal.
+ */
+export const diffAppointments = (
+  before: Appointment,
+  after: Appointment,
+  options: { source: AppointmentChangeSource; actor?: string; reason?: string; now?: Date }
+): AppointmentChange[] => {
+  const { source, actor, reason, now = new Date() } = options;
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Appointment)[]);
+
+  return Array.from(fields)
+    .filter(field => !UNAUDITED_FIELDS.includes(field) && !isSameValue(before[field], after[field]))
+    .map(field => ({
+      appointmentId: before.recurringAppointmentId || before.id,
+      occurrenceStart: before.recurringAppointmentId ? before.originalStartTime || before.startTime : undefined,
+      field,
+      before: before[field],
+      after: after[field],
+      actor,
+      timestamp: now.toISOString(),
+      reason: reason || undefined,
+      source,
+    }));
+};
+
+/**
+ * Get the recorded changes of one appointment, newest first
+ * Changes to any occurrence are included for a recurring appointment.
+ */
+export const getAppointmentHistory = (changes: AppointmentChange[], appointmentId: string) => {
+  return changes
+    .filter(change => change.appointmentId === appointmentId)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+/**
+ * Group changes made together (same time, actor and source) into edits
+ * The order of the changes is kept.
+ */
+export const groupChangesByEdit = (changes: AppointmentChange[]) => {
+  const edits: AppointmentChange[][] = [];
+  changes.forEach(change => {
+    const edit = edits.find(([first]) =>
+      first.timestamp === change.timestamp &&
+      first.actor === change.actor &&
+      first.source === change.source &&
+      first.occurrenceStart === change.occurrenceStart
+    );
+    if (edit) {
+      edit.push(change);
+    } else {
+      edits.push([change]);
+    }
+  });
+  return edits;
+};
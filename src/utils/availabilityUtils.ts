@@ -0,0 +1,94 @@
+import { addDays, addMinutes } from 'date-fns';
+import { Appointment, AvailabilityOptions, AvailableSlot } from '../types';
+import {
+  parseISODate,
+  toZonedDate,
+  fromZonedDate,
+  getStartOfDay,
+  generateTimeSlots,
+  isWithinBusinessHours,
+  timeStringToMinutes
+} from './dateUtils';
+import { expandRecurringAppointments } from './recurrenceUtils';
+import { holdsTimeSlot, isSameProvider } from './conflictUtils';
+import { getWorkingHoursForDate, isProviderAvailable } from './scheduleUtils';
+import { findClosureOverlap } from './closureUtils';
+
+/**
+ * Utility functions for finding free time
+ */
+
+/**
+ * Find free slots of a given duration within business hours
+ * Candidate starts are the business-hours time slots (see generateTimeSlots) of
+ * each day in the range. A slot is free when it starts and ends within business
+ * hours and does not overlap an appointment of the provider. Without a provider,
+ * every appointment occupies its time. With a provider schedule, its working
+ * hours on each date take the place of the business hours. Slots overlapping a
+ * clinic closure are never offered.
+ */
+export const findAvailableSlots = (
+  appointments: Appointment[],
+  options: AvailabilityOptions
+): AvailableSlot[] => {
+  const {
+    businessHours,
+    durationMinutes,
+    rangeStart,
+    rangeEnd,
+    doctorId,
+    doctorName,
+    schedule,
+    closures = [],
+    intervalMinutes = 30,
+    timeZone = 'UTC',
+    maxSlots,
+  } = options;
+
+  if (durationMinutes <= 0 || rangeEnd <= rangeStart) return [];
+
+  const provider = { doctorId: doctorId ?? schedule?.doctorId, doctorName: doctorName ?? schedule?.doctorName };
+  const hasProvider = !!(provider.doctorId || provider.doctorName);
+  const busy = expandRecurringAppointments(appointments, rangeStart, rangeEnd, timeZone)
+    .filter(apt => holdsTimeSlot(apt) && (!hasProvider || isSameProvider(provider, apt)))
+    .map(apt => ({ start: parseISODate(apt.startTime), end: parseISODate(apt.endTime) }))
+    .filter((interval): interval is { start: Date; end: Date } => !!interval.start && !!interval.end);
+
+  const businessSlotTimes = generateTimeSlots(businessHours.start, businessHours.end, intervalMinutes);
+  const lastDay = getStartOfDay(toZonedDate(rangeEnd, timeZone));
+  const slots: AvailableSlot[] = [];
+
+  // Business hours, or the provider's working hours when a schedule is given
+  const isOpen = (start: Date, end: Date) => {
+    if (schedule) return isProviderAvailable(schedule, start, end, timeZone);
+    return (
+      isWithinBusinessHours(start, businessHours.start, businessHours.end, businessHours.days, timeZone) &&
+      isWithinBusinessHours(end, businessHours.start, businessHours.end, businessHours.days, timeZone)
+    );
+  };
+
+  for (let day = getStartOfDay(toZonedDate(rangeStart, timeZone)); day <= lastDay; day = addDays(day, 1)) {
+    let slotTimes: string[];
+    if (schedule) {
+      slotTimes = getWorkingHoursForDate(schedule, day)
+        .flatMap(hours => generateTimeSlots(hours.start, hours.end, intervalMinutes));
+    } else {
+      slotTimes = businessHours.days.includes(day.getDay()) ? businessSlotTimes : [];
+    }
+
+    for (const time of slotTimes) {
+      const start = fromZonedDate(addMinutes(day, timeStringToMinutes(time)), timeZone);
+      const end = addMinutes(start, durationMinutes);
+
+      if (start < rangeStart || end > rangeEnd) continue;
+      if (!isOpen(start, end)) continue;
+      if (findClosureOverlap(closures, start, end, timeZone)) continue;
+      if (busy.some(interval => interval.start < end && interval.end > start)) continue;
+
+      slots.push({ start, end });
+      if (maxSlots && slots.length >= maxSlots) return slots;
+    }
+  }
+
+  return slots;
+};
@@ -100,12 +100,14 @@ export const getNavigationClasses = (disabled: boolean = false) => {
 export const getAppointmentCardClasses = (
   status: string,
   priority: string,
-  isSelected: boolean = false
+  isSelected: boolean = false,
+  isConflicting: boolean = false
 ) => {
   return cn(
     'relative rounded-lg border p-3 shadow-sm transition-all',
     'hover:shadow-md cursor-pointer',
     {
+      'ring-2 ring-red-400': isConflicting,
       'border-blue-200 bg-blue-50': isSelected,
       'border-gray-200 bg-white': !isSelected,
       'border-l-4 border-l-blue-500': status === 'scheduled',
@@ -117,6 +119,13 @@ export const getAppointmentCardClasses = (
   );
 };
 
+/**
+ * Generate CSS classes for busy blocks (appointments the viewer may not see)
+ */
+export const getBusyBlockClasses = () => {
+  return 'border border-dashed border-gray-300 bg-gray-100 text-gray-500 cursor-default';
+};
+
 /**
  * Generate CSS classes for form inputs
  */
@@ -0,0 +1,121 @@
+import { addDays, format } from 'date-fns';
+import { Appointment, ClinicClosure, UnavailableRange } from '../types';
+import {
+  parseISODate,
+  toZonedDate,
+  fromZonedDate,
+  getStartOfDay,
+  timeStringToMinutes
+} from './dateUtils';
+import { expandRecurringAppointments } from './recurrenceUtils';
+import { holdsTimeSlot } from './conflictUtils';
+
+/**
+ * Utility functions for clinic closures
+ * Closure dates and times are wall-clock times; dates passed in are zoned dates
+ * (see toZonedDate) unless a time zone is given.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Get the closures that cover any part of a date
+ */
+export const getClosuresForDate = (closures: ClinicClosure[], date: Date) => {
+  const day = format(date, 'yyyy-MM-dd');
+  return closures.filter(closure => day >= closure.startDate && day <= (closure.endDate || closure.startDate));
+};
+
+/**
+ * Check whether a closure covers whole days
+ */
+export const isFullDayClosure = (closure: ClinicClosure) => {
+  return !closure.startTime && !closure.endTime;
+};
+
+/**
+ * Get the closed parts of a date, labelled with the closure, for shading
+ */
+export const getClosureRanges = (closures: ClinicClosure[], date: Date): UnavailableRange[] => {
+  return getClosuresForDate(closures, date)
+    .map(closure => ({
+      start: closure.startTime ? timeStringToMinutes(closure.startTime) : 0,
+      end: closure.endTime ? timeStringToMinutes(closure.endTime) : MINUTES_PER_DAY,
+      reason: closure.label,
+    }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Find the first closure that overlaps a time span
+ * `start` and `end` are instants read in `timeZone`. Spans that only touch a
+ * closure end to start do not overlap it.
+ */
+export const findClosureOverlap = (
+  closures: ClinicClosure[],
+  start: Date,
+  end: Date,
+  timeZone: string = 'UTC'
+): ClinicClosure | undefined => {
+  if (closures.length === 0 || end <= start) return undefined;
+
+  const zonedStart = toZonedDate(start, timeZone);
+  const zonedEnd = toZonedDate(end, timeZone);
+
+  for (let day = getStartOfDay(zonedStart); day < zonedEnd; day = addDays(day, 1)) {
+    const startMinutes = Math.max(0, (zonedStart.getTime() - day.getTime()) / 60000);
+    const endMinutes = Math.min(MINUTES_PER_DAY, (zonedEnd.getTime() - day.getTime()) / 60000);
+
+    const closure = getClosuresForDate(closures, day).find(candidate => {
+      const closedFrom = candidate.startTime ? timeStringToMinutes(candidate.startTime) : 0;
+      const closedUntil = candidate.endTime ? timeStringToMinutes(candidate.endTime) : MINUTES_PER_DAY;
+      return closedFrom < endMinutes && closedUntil > startMinutes;
+    });
+    if (closure) return closure;
+  }
+
+  return undefined;
+};
+
+/**
+ * Find the appointments (including recurring occurrences) that fall inside a closure
+ * Cancelled and no-show appointments are left out.
+ */
+export const findAppointmentsInClosure = (
+  appointments: Appointment[],
+  closure: ClinicClosure,
+  timeZone: string = 'UTC'
+) => {
+  const firstDay = parseISODate(`${closure.startDate}T00:00:00`);
+  const lastDay = parseISODate(`${closure.endDate || closure.startDate}T00:00:00`);
+  if (!firstDay || !lastDay) return [];
+
+  const rangeStart = fromZonedDate(firstDay, timeZone);
+  const rangeEnd = fromZonedDate(addDays(lastDay, 1), timeZone);
+
+  return expandRecurringAppointments(appointments, rangeStart, rangeEnd, timeZone).filter(apt => {
+    const aptStart = parseISODate(apt.startTime);
+    const aptEnd = parseISODate(apt.endTime);
+    return (
+      holdsTimeSlot(apt) &&
+      !!aptStart &&
+      !!aptEnd &&
+      !!findClosureOverlap([closure], aptStart, aptEnd, timeZone)
+    );
+  });
+};
+
+/**
+ * Check whether two closures are the same, by ID when both have one
+ */
+export const isSameClosure = (a: ClinicClosure, b: ClinicClosure) => {
+  if (a.id && b.id) return a.id === b.id;
+  return (
+    a.label === b.label &&
+    a.startDate === b.startDate &&
+    (a.endDate || a.startDate) === (b.endDate || b.startDate) &&
+    a.startTime === b.startTime &&
+    a.endTime === b.endTime
+  );
+};
@@ -0,0 +1,119 @@
+import {
+  Appointment,
+  AppointmentConflict,
+  AppointmentStatus,
+  ConflictCandidate,
+  ConflictType
+} from '../types';
+import { parseISODate } from './dateUtils';
+import { expandRecurringAppointments } from './recurrenceUtils';
+
+/**
+ * Utility functions for detecting double bookings
+ */
+
+// Appointments in these statuses no longer hold their time slot
+const INACTIVE_STATUSES: string[] = [AppointmentStatus.CANCELLED, AppointmentStatus.NO_SHOW];
+
+const normalize = (value?: string) => value?.trim().toLowerCase() || '';
+
+// Compare by ID when both sides have one, otherwise by the given fallback fields
+const isSameParty = (
+  a: Partial<Appointment>,
+  b: Partial<Appointment>,
+  idField: 'doctorId' | 'patientId',
+  fallbackFields: ('doctorName' | 'patientEmail' | 'patientName')[]
+) => {
+  if (a[idField] && b[idField]) return a[idField] === b[idField];
+
+  const field = fallbackFields.find(name => normalize(a[name]) && normalize(b[name]));
+  return !!field && normalize(a[field]) === normalize(b[field]);
+};
+
+/**
+ * Check whether two appointments are with the same provider
+ * Compares doctorId when both have one, otherwise the doctor name.
+ */
+export const isSameProvider = (
+  a: Pick<Appointment, 'doctorId' | 'doctorName'>,
+  b: Pick<Appointment, 'doctorId' | 'doctorName'>
+) => {
+  return isSameParty(a, b, 'doctorId', ['doctorName']);
+};
+
+/**
+ * Check whether an appointment still holds its time slot (not cancelled or a no-show)
+ */
+export const holdsTimeSlot = (appointment: Appointment) => {
+  return !INACTIVE_STATUSES.includes(appointment.status);
+};
+
+const isSameLocation = (a: ConflictCandidate, b: ConflictCandidate) => {
+  if (a.isOnlineAppointment || b.isOnlineAppointment) return false;
+  return !!normalize(a.location) && normalize(a.location) === normalize(b.location);
+};
+
+/**
+ * Find the existing appointments that a candidate appointment double-books
+ * Reports one conflict per overlapping appointment and kind: the same provider
+ * (doctorId, else doctorName), the same patient (patientId, else email, else
+ * name) or the same physical location. The candidate itself, its recurring
+ * series and cancelled or no-show appointments are ignored. Appointments that
+ * only touch end to start do not overlap.
+ */
+export const detectConflicts = (
+  appointments: Appointment[],
+  candidate: ConflictCandidate,
+  timeZone: string = 'UTC'
+): AppointmentConflict[] => {
+  const start = parseISODate(candidate.startTime);
+  const end = parseISODate(candidate.endTime);
+  if (!start || !end || end <= start) return [];
+
+  const conflicts: AppointmentConflict[] = [];
+
+  expandRecurringAppointments(appointments, start, end, timeZone).forEach(apt => {
+    if (candidate.id && (apt.id === candidate.id || apt.recurringAppointmentId === candidate.id)) return;
+    if (candidate.recurringAppointmentId && apt.id === candidate.recurringAppointmentId) return;
+    if (!holdsTimeSlot(apt)) return;
+
+    const aptStart = parseISODate(apt.startTime);
+    const aptEnd = parseISODate(apt.endTime);
+    if (!aptStart || !aptEnd || aptStart >= end || aptEnd <= start) return;
+
+    if (isSameProvider(candidate, apt)) {
+      conflicts.push({ type: ConflictType.PROVIDER, appointment: apt });
+    }
+    if (isSameParty(candidate, apt, 'patientId', ['patientEmail', 'patientName'])) {
+      conflicts.push({ type: ConflictType.PATIENT, appointment: apt });
+    }
+    if (isSameLocation(candidate, apt)) {
+      conflicts.push({ type: ConflictType.LOCATION, appointment: apt });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Get the conflicts whose kind is configured to block saving
+ */
+export const getBlockingConflicts = (conflicts: AppointmentConflict[], blockingTypes: ConflictType[] = []) => {
+  return conflicts.filter(conflict => blockingTypes.includes(conflict.type));
+};
+
+/**
+ * Get the IDs of appointments that conflict with another appointment in the list
+ */
+export const getConflictingAppointmentIds = (appointments: Appointment[], timeZone: string = 'UTC') => {
+  const ids = new Set<string>();
+
+  appointments.forEach(apt => {
+    if (!holdsTimeSlot(apt)) return;
+    if (detectConflicts(appointments, apt, timeZone).length > 0) {
+      ids.add(apt.id);
+    }
+  });
+
+  return ids;
+};
@@ -0,0 +1,471 @@
+import { format, isValid, parse } from 'date-fns';
+import {
+  Appointment,
+  AppointmentEnumConfig,
+  AppointmentFormData,
+  AppointmentStatus,
+  AppointmentPriority,
+  CalendarMessages,
+  ClinicClosure,
+  ConfigurableOption,
+  ConflictType,
+  CsvColumnMapping,
+  CsvImportReport,
+  CsvImportRow,
+  PolicyRule,
+  PolicyUser,
+  ProviderSchedule,
+  getConfigurableOptions
+} from '../types';
+import { formatDateInTimeZone, fromZonedDate, parseISODate } from './dateUtils';
+import { enMessages, formatMessage } from './messages';
+import { detectConflicts, getBlockingConflicts } from './conflictUtils';
+import { findProviderSchedule } from './scheduleUtils';
+import { maskAppointments } from './policyUtils';
+import { validateAppointmentFormData } from './validation';
+
+/**
+ * Utility functions for CSV import and export
+ * Files are read and written the way spreadsheet apps save them: an optional
+ * byte order mark, quoted cells, and comma, semicolon or tab separators.
+ */
+
+/**
+ * Column of the CSV export, and a field CSV columns can be imported into
+ */
+interface CsvColumn {
+  field: keyof AppointmentFormData;
+  label: keyof CalendarMessages; // Header text
+}
+
+const CSV_COLUMNS: CsvColumn[] = [
+  { field: 'title', label: 'title' },
+  { field: 'description', label: 'description' },
+  { field: 'startTime', label: 'startTime' },
+  { field: 'endTime', label: 'endTime' },
+  { field: 'status', label: 'status' },
+  { field: 'priority', label: 'priority' },
+  { field: 'type', label: 'appointmentType' },
+  { field: 'patientName', label: 'patientName' },
+  { field: 'patientEmail', label: 'patientEmail' },
+  { field: 'patientPhone', label: 'patientPhone' },
+  { field: 'patientDateOfBirth', label: 'dateOfBirth' },
+  { field: 'patientGender', label: 'gender' },
+  { field: 'doctorName', label: 'doctorName' },
+  { field: 'doctorSpecialty', label: 'doctorSpecialty' },
+  { field: 'location', label: 'location' },
+  { field: 'isOnlineAppointment', label: 'onlineAppointment' },
+  { field: 'meetingLink', label: 'meetingLink' },
+  { field: 'meetingPassword', label: 'meetingPassword' },
+  { field: 'symptoms', label: 'symptoms' },
+  { field: 'diagnosis', label: 'diagnosis' },
+  { field: 'prescription', label: 'prescription' },
+  { field: 'notes', label: 'notes' },
+  { field: 'cancellationReason', label: 'cancellationReason' },
+  { field: 'followUpRequired', label: 'followUpRequired' },
+  { field: 'followUpDate', label: 'followUpDate' },
+  { field: 'insuranceProvider', label: 'insuranceProvider' },
+  { field: 'insuranceNumber', label: 'insuranceNumber' },
+  { field: 'copay', label: 'copay' },
+  { field: 'moderationNotes', label: 'moderationNotes' },
+];
+
+/**
+ * Fields CSV columns can be imported into, in export order
+ */
+export const CSV_IMPORT_FIELDS = CSV_COLUMNS.map(column => column.field);
+
+/**
+ * Column header of a field: its form label, or the field name for unknown fields
+ */
+export const getCsvFieldLabel = (field: keyof AppointmentFormData, messages: CalendarMessages = enMessages) => {
+  const label = CSV_COLUMNS.find(column => column.field === field)?.label;
+  return label ? messages[label] : field;
+};
+
+const DATE_TIME_FIELDS: (keyof AppointmentFormData)[] = ['startTime', 'endTime', 'followUpDate'];
+const BOOLEAN_FIELDS: (keyof AppointmentFormData)[] = ['isOnlineAppointment', 'followUpRequired'];
+const LIST_FIELDS: (keyof AppointmentFormData)[] = ['symptoms', 'prescription'];
+const ENUM_FIELDS: Partial<Record<keyof AppointmentFormData, 'statuses' | 'priorities' | 'types'>> = {
+  status: 'statuses',
+  priority: 'priorities',
+  type: 'types',
+};
+
+const DEFAULT_DATE_TIME_FORMAT = 'yyyy-MM-dd HH:mm';
+const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
+
+// Cells starting with these characters run as formulas in spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Numbers and phone numbers may start with a sign and are left alone
+const SIGNED_NUMBER = /^[+-][\d\s().,-]*$/;
+
+// Compare headers and labels without case, accents, spaces or punctuation
+const normalizeHeader = (value: string) => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+};
+
+// The separator used most in the header row, outside quotes
+const detectDelimiter = (text: string) => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (char === '\n' || char === '\r')) break;
+    if (!quoted && char in counts) counts[char]++;
+  }
+  return Object.keys(counts).reduce((best, delimiter) => (counts[delimiter] > counts[best] ? delimiter : best), ',');
+};
+
+/**
+ * Split CSV text into rows of cells (RFC 4180)
+ * Quoted cells may contain separators, line breaks and doubled quotes. The
+ * separator is detected from the header row when not given.
+ */
+export const parseCSV = (text: string, delimiter?: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = delimiter || detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Guess the field each CSV column holds from its header
+ * Headers are matched against field names and their English and given labels,
+ * ignoring case, accents and punctuation. Unrecognized columns are left out.
+ */
+export const suggestColumnMapping = (headers: string[], messages: CalendarMessages = enMessages): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<keyof AppointmentFormData>();
+
+  headers.forEach(header => {
+    const wanted = normalizeHeader(header);
+    const column = CSV_COLUMNS.find(({ field, label }) =>
+      !used.has(field) &&
+      [field, enMessages[label], messages[label]].some(name => normalizeHeader(name) === wanted)
+    );
+    if (wanted && column) {
+      mapping[header] = column.field;
+      used.add(column.field);
+    }
+  });
+
+  return mapping;
+};
+
+// Match a cell against configured options by value or label
+const findOption = (options: ConfigurableOption[], value: string) => {
+  const wanted = value.trim().toLowerCase();
+  return options.find(option => option.value.toLowerCase() === wanted || option.label.toLowerCase() === wanted);
+};
+
+// Wall-clock date or date-time read in `timeZone`; ISO values with an offset keep it
+const parseDateCell = (value: string, dateFormat: string | undefined, timeZone: string) => {
+  if (dateFormat) {
+    const parsed = parse(value, dateFormat, new Date(2000, 0, 1));
+    return isValid(parsed) ? fromZonedDate(format(parsed, "yyyy-MM-dd'T'HH:mm:ss"), timeZone) : null;
+  }
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) return parseISODate(value);
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00'] = match;
+  const date = fromZonedDate(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}`, timeZone);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Exported cells are protected against formulas with a leading quote
+const unescapeFormula = (value: string) => {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+};
+
+const escapeFormula = (value: string) => {
+  return FORMULA_PREFIX.test(value) && !SIGNED_NUMBER.test(value) ? `'${value}` : value;
+};
+
+/**
+ * Read CSV text into appointment form data and report which rows can be imported
+ * Each row is converted with the column mapping (guessed from the headers when
+ * not given) and checked with the appointment form's rules, the provider
+ * schedules and clinic closures. Rows are also checked for double bookings
+ * with `appointments` and the rows accepted before them; conflict kinds in
+ * `blockingConflicts` reject the row. Empty status, priority and type cells
+ * take the first enumConfig option. Date-times are read in `timeZone`, as ISO
+ * 8601 or with the given date-fns `dateTimeFormat`; dates of birth use
+ * `dateFormat`.
+ */
+export const fromCSV = (
+  text: string,
+  options: {
+    mapping?: CsvColumnMapping;
+    delimiter?: string;
+    enumConfig?: AppointmentEnumConfig;
+    timeZone?: string;
+    dateTimeFormat?: string;
+    dateFormat?: string;
+    appointments?: Appointment[];
+    blockingConflicts?: ConflictType[];
+    schedules?: ProviderSchedule[];
+    closures?: ClinicClosure[];
+    messages?: CalendarMessages;
+  } = {}
+): CsvImportReport => {
+  const {
+    delimiter,
+    enumConfig,
+    timeZone = 'UTC',
+    dateTimeFormat,
+    dateFormat,
+    appointments = [],
+    blockingConflicts = [],
+    schedules = [],
+    closures = [],
+    messages = enMessages,
+  } = options;
+
+  const [headerCells = [], ...records] = parseCSV(text, delimiter);
+  const headers = headerCells.map((header, index) => header.trim() || `Column ${index + 1}`);
+  const mapping = options.mapping || suggestColumnMapping(headers, messages);
+  const genders: Record<string, AppointmentFormData['patientGender']> = {};
+  ([
+    ['male', messages.genderMale],
+    ['female', messages.genderFemale],
+    ['other', messages.genderOther],
+    ['prefer_not_to_say', messages.genderPreferNotToSay],
+  ] as const).forEach(([value, label]) => {
+    genders[value] = value;
+    genders[label.toLowerCase()] = value;
+  });
+  const trueValues = ['true', 'yes', 'y', '1', 'x', messages.yes.toLowerCase()];
+  const falseValues = ['false', 'no', 'n', '0', messages.no.toLowerCase()];
+
+  const rows: CsvImportRow[] = [];
+  const imported: Appointment[] = [];
+
+  records.forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) return;
+
+    const rowNumber = index + 2;
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      values[header] = cells[column] ?? '';
+    });
+
+    const data: AppointmentFormData = {
+      title: '',
+      startTime: '',
+      endTime: '',
+      status: getConfigurableOptions(enumConfig, 'statuses')[0]?.value || AppointmentStatus.SCHEDULED,
+      priority: getConfigurableOptions(enumConfig, 'priorities')[0]?.value || AppointmentPriority.ROUTINE,
+      type: getConfigurableOptions(enumConfig, 'types')[0]?.value || '',
+    };
+    const fields = data as unknown as Record<string, unknown>;
+    const parseErrors: Record<string, string> = {};
+
+    headers.forEach(header => {
+      const field = mapping[header];
+      const value = unescapeFormula((values[header] || '').trim());
+      if (!field || !value) return;
+
+      const enumType = ENUM_FIELDS[field];
+      if (enumType) {
+        const option = findOption(getConfigurableOptions(enumConfig, enumType), value);
+        if (option) fields[field] = option.value;
+        else parseErrors[field] = formatMessage(messages.invalidValue, { value });
+      } else if (DATE_TIME_FIELDS.includes(field)) {
+        const date = parseDateCell(value, dateTimeFormat, timeZone) || (dateTimeFormat ? parseDateCell(value, undefined, timeZone) : null);
+        if (date) fields[field] = date.toISOString();
+        else parseErrors[field] = messages.invalidDate;
+      } else if (field === 'patientDateOfBirth') {
+        const date = dateFormat ? parse(value, dateFormat, new Date(2000, 0, 1)) : parseISODate(value);
+        if (date && isValid(date)) fields[field] = format(date, DEFAULT_DATE_FORMAT);
+        else parseErrors[field] = messages.invalidDate;
+      } else if (field === 'patientGender') {
+        const gender = genders[value.toLowerCase()];
+        if (gender) data.patientGender = gender;
+        else parseErrors[field] = formatMessage(messages.invalidValue, { value });
+      } else if (BOOLEAN_FIELDS.includes(field)) {
+        const normalized = value.toLowerCase();
+        if (trueValues.includes(normalized)) fields[field] = true;
+        else if (falseValues.includes(normalized)) fields[field] = false;
+        else parseErrors[field] = formatMessage(messages.invalidValue, { value });
+      } else if (LIST_FIELDS.includes(field)) {
+        fields[field] = value.split(/[;|\n]/).map(item => item.trim()).filter(Boolean);
+      } else if (field === 'copay') {
+        const amount = Number(value.replace(/[^\d,.-]/g, '').replace(',', '.'));
+        if (isNaN(amount)) parseErrors[field] = messages.invalidNumber;
+        else data.copay = amount;
+      } else {
+        fields[field] = value;
+      }
+    });
+
+    const conflicts = data.startTime && data.endTime
+      ? detectConflicts([...appointments, ...imported], { ...data }, timeZone)
+      : [];
+    const errors = {
+      ...validateAppointmentFormData(data, {
+        messages,
+        closures,
+        providerSchedule: findProviderSchedule(schedules, { doctorName: data.doctorName }),
+        timeZone,
+        blockingConflicts: getBlockingConflicts(conflicts, blockingConflicts),
+      }),
+      ...parseErrors,
+    };
+    const accepted = Object.keys(errors).length === 0;
+
+    // Accepted rows hold their time for the rows after them
+    if (accepted) {
+      imported.push({ ...data, id: `csv-row-${rowNumber}`, createdAt: '', updatedAt: '' });
+    }
+    rows.push({ rowNumber, values, data, errors, conflicts, accepted });
+  });
+
+  return {
+    headers,
+    mapping,
+    rows,
+    accepted: rows.filter(row => row.accepted),
+    rejected: rows.filter(row => !row.accepted),
+  };
+};
+
+const formatCell = (value: string, delimiter: string) => {
+  const cell = escapeFormula(value);
+  return /["\r\n]/.test(cell) || cell.includes(delimiter) || cell !== cell.trim()
+    ? `"${cell.replace(/"/g, '""')}"`
+    : cell;
+};
+
+/**
+ * Serialize appointments to CSV, one row per appointment
+ * Headers are the form's labels, so fromCSV maps an exported file back.
+ * Status, priority and type are written as their labels and times in
+ * `timeZone`. With a `currentUser`, appointments are masked by the access
+ * policy first (see maskAppointments), leaving hidden fields empty. Cells that
+ * would run as spreadsheet formulas are prefixed with a quote.
+ */
+export const toCSV = (
+  appointments: Appointment[],
+  options: {
+    columns?: (keyof AppointmentFormData)[];
+    delimiter?: string;
+    enumConfig?: AppointmentEnumConfig;
+    timeZone?: string;
+    dateTimeFormat?: string;
+    dateFormat?: string;
+    currentUser?: PolicyUser;
+    policy?: PolicyRule[];
+    messages?: CalendarMessages;
+  } = {}
+) => {
+  const {
+    columns = CSV_IMPORT_FIELDS,
+    delimiter = ',',
+    enumConfig,
+    timeZone = 'UTC',
+    dateTimeFormat = DEFAULT_DATE_TIME_FORMAT,
+    dateFormat = DEFAULT_DATE_FORMAT,
+    currentUser,
+    policy,
+    messages = enMessages,
+  } = options;
+  const genderLabels: Record<string, string> = {
+    male: messages.genderMale,
+    female: messages.genderFemale,
+    other: messages.genderOther,
+    prefer_not_to_say: messages.genderPreferNotToSay,
+  };
+
+  const formatValue = (appointment: Appointment, field: keyof AppointmentFormData) => {
+    const value = (appointment as unknown as Record<string, unknown>)[field];
+    if (value === undefined || value === null || value === '') return '';
+
+    const enumType = ENUM_FIELDS[field];
+    if (enumType) {
+      const options = getConfigurableOptions(enumConfig, enumType);
+      return options.find(option => option.value === value)?.label || String(value);
+    }
+    if (DATE_TIME_FIELDS.includes(field)) {
+      const date = parseISODate(String(value));
+      if (!date) return String(value);
+      return formatDateInTimeZone(date, timeZone, dateTimeFormat);
+    }
+    // Dates of birth are calendar dates, whatever time of day they were stored with
+    if (field === 'patientDateOfBirth') {
+      const date = parseISODate(String(value).slice(0, 10));
+      return date ? format(date, dateFormat) : String(value);
+    }
+    if (field === 'patientGender') return genderLabels[String(value)] || String(value);
+    if (typeof value === 'boolean') return value ? messages.yes : messages.no;
+    if (Array.isArray(value)) return value.join('; ');
+    return String(value);
+  };
+
+  const header = columns.map(field => formatCell(getCsvFieldLabel(field, messages), delimiter));
+  const rows = maskAppointments(appointments, currentUser, { policy, busyTitle: messages.busy }).map(appointment =>
+    columns.map(field => formatCell(formatValue(appointment, field), delimiter)).join(delimiter)
+  );
+
+  // The byte order mark lets spreadsheet apps read accented names as UTF-8
+  return '\uFEFF' + [header.join(delimiter), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Save appointments as a .csv file in the browser (see toCSV)
+ */
+export const downloadCSV = (
+  appointments: Appointment[],
+  filename: string = 'appointments.csv',
+  options: Parameters<typeof toCSV>[1] = {}
+) => {
+  const blob = new Blob([toCSV(appointments, options)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,126 @@
+import { Appointment, ApiResponse, CalendarDataFilters, CalendarDataSource } from '../types';
+
+/**
+ * Utility functions for loading appointments from a calendar data source
+ * Results are cached per data source and range, and a range that is already
+ * being loaded is not requested again.
+ */
+
+/**
+ * Loaded and loading ranges of one data source, by range key
+ */
+interface RangeCache {
+  results: Map<string, Appointment[]>;
+  inFlight: Map<string, Promise<Appointment[]>>;
+}
+
+const rangeCaches = new WeakMap<CalendarDataSource, RangeCache>();
+
+const getRangeCache = (dataSource: CalendarDataSource) => {
+  let cache = rangeCaches.get(dataSource);
+  if (!cache) {
+    cache = { results: new Map(), inFlight: new Map() };
+    rangeCaches.set(dataSource, cache);
+  }
+  return cache;
+};
+
+/**
+ * Cache key of a range and its filters
+ * Filters are compared by value, whatever the order of their keys.
+ */
+export const getRangeKey = (start: Date, end: Date, filters: CalendarDataFilters = {}) => {
+  const sortedFilters = Object.keys(filters)
+    .sort()
+    .filter(key => filters[key as keyof CalendarDataFilters] !== undefined)
+    .map(key => [key, filters[key as keyof CalendarDataFilters]]);
+  return `${start.toISOString()}/${end.toISOString()}:${JSON.stringify(sortedFilters)}`;
+};
+
+const getResponseError = (response: ApiResponse<Appointment[]>) => {
+  return new Error(response.message || response.errors?.join(', ') || 'Failed to load appointments');
+};
+
+// Request every page of a paginated range and join them, without duplicates
+const fetchAllPages = async (
+  dataSource: CalendarDataSource,
+  start: Date,
+  end: Date,
+  filters: CalendarDataFilters
+) => {
+  const first = await dataSource.fetchRange(start, end, { ...filters, page: 1 });
+  if (!first.success) throw getResponseError(first);
+
+  const totalPages = first.pagination?.totalPages || 1;
+  const rest = await Promise.all(
+    Array.from({ length: Math.max(totalPages - 1, 0) }, (_, index) =>
+      dataSource.fetchRange(start, end, { ...filters, page: index + 2 })
+    )
+  );
+  const failed = rest.find(response => !response.success);
+  if (failed) throw getResponseError(failed);
+
+  const byId = new Map<string, Appointment>();
+  [first, ...rest].forEach(response => response.data.forEach(appointment => byId.set(appointment.id, appointment)));
+  return Array.from(byId.values());
+};
+
+/**
+ * Get the appointments of a range that has already been loaded
+ */
+export const getCachedRange = (
+  dataSource: CalendarDataSource,
+  start: Date,
+  end: Date,
+  filters: CalendarDataFilters = {}
+): Appointment[] | undefined => {
+  return getRangeCache(dataSource).results.get(getRangeKey(start, end, filters));
+};
+
+/**
+ * Load the appointments of a range from a data source
+ * Cached ranges resolve without a request, and a range that is being loaded
+ * shares the pending request. When the source paginates (see
+ * ApiResponse.pagination), every page is requested. Rejects with the
+ * response's message when it is not successful; failed ranges are not cached.
+ * With `refresh`, a cached range is requested again.
+ */
+export const fetchAppointmentRange = (
+  dataSource: CalendarDataSource,
+  start: Date,
+  end: Date,
+  filters: CalendarDataFilters = {},
+  options: { refresh?: boolean } = {}
+): Promise<Appointment[]> => {
+  const cache = getRangeCache(dataSource);
+  const key = getRangeKey(start, end, filters);
+
+  const cached = cache.results.get(key);
+  if (cached && !options.refresh) return Promise.resolve(cached);
+
+  const pending = cache.inFlight.get(key);
+  if (pending) return pending;
+
+  // Responses arriving after the cache was cleared are not cached
+  const request: Promise<Appointment[]> = fetchAllPages(dataSource, start, end, filters)
+    .then(appointments => {
+      if (cache.inFlight.get(key) === request) cache.results.set(key, appointments);
+      return appointments;
+    })
+    .finally(() => {
+      if (cache.inFlight.get(key) === request) cache.inFlight.delete(key);
+    });
+  cache.inFlight.set(key, request);
+  return request;
+};
+
+/**
+ * Forget the loaded ranges of a data source, so they are requested again
+ * Use it after appointments change, since a change can move them between ranges.
+ */
+export const clearRangeCache = (dataSource: CalendarDataSource) => {
+  const cache = rangeCaches.get(dataSource);
+  if (!cache) return;
+  cache.results.clear();
+  cache.inFlight.clear();
+};
@@ -1,4 +1,7 @@
 import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek, addDays, addMonths, subMonths, isSameDay, isSameMonth, isToday, parseISO, isValid } from 'date-fns';
+import type { Locale } from 'date-fns';
+import { utcToZonedTime, zonedTimeToUtc, formatInTimeZone } from 'date-fns-tz';
+import { ClinicClosure } from '../types';
 
 /**
  * Utility functions for calendar date operations
@@ -26,8 +29,9 @@ export const getWeekBounds = (date: Date, startOfWeekDay: number = 0) => {
 
 /**
  * Generate an array of dates for a month view
+ * When visible days of the week are given, other days are left out.
  */
-export const getMonthDates = (date: Date, startOfWeekDay: number = 0) => {
+export const getMonthDates = (date: Date, startOfWeekDay: number = 0, visibleDays?: number[]) => {
   const monthStart = startOfMonth(date);
   const monthEnd = endOfMonth(date);
   const calendarStart = startOfWeek(monthStart, { weekStartsOn: startOfWeekDay as any });
@@ -37,7 +41,9 @@ export const getMonthDates = (date: Date, startOfWeekDay: number = 0) => {
   let currentDate = calendarStart;
   
   while (currentDate <= calendarEnd) {
-    dates.push(new Date(currentDate));
+    if (!visibleDays || visibleDays.includes(currentDate.getDay())) {
+      dates.push(new Date(currentDate));
+    }
     currentDate = addDays(currentDate, 1);
   }
   
@@ -46,18 +52,37 @@ export const getMonthDates = (date: Date, startOfWeekDay: number = 0) => {
 
 /**
  * Generate an array of dates for a week view
+ * When visible days of the week are given, other days are left out.
  */
-export const getWeekDates = (date: Date, startOfWeekDay: number = 0) => {
+export const getWeekDates = (date: Date, startOfWeekDay: number = 0, visibleDays?: number[]) => {
   const weekStart = startOfWeek(date, { weekStartsOn: startOfWeekDay as any });
   const dates: Date[] = [];
   
   for (let i = 0; i < 7; i++) {
-    dates.push(addDays(weekStart, i));
+    const day = addDays(weekStart, i);
+    if (!visibleDays || visibleDays.includes(day.getDay())) {
+      dates.push(day);
+    }
   }
   
   return dates;
 };
 
+/**
+ * Find the nearest date on one of the visible days of the week
+ * Searches from the date itself, forwards or backwards. The date is returned
+ * unchanged when no day of the week is visible.
+ */
+export const findVisibleDate = (date: Date, visibleDays: number[], direction: 1 | -1 = 1) => {
+  if (visibleDays.includes(date.getDay())) return date;
+
+  for (let i = 1; i < 7; i++) {
+    const candidate = addDays(date, i * direction);
+    if (visibleDays.includes(candidate.getDay())) return candidate;
+  }
+  return date;
+};
+
 /**
  * Check if a date is in the current month
  */
@@ -82,15 +107,62 @@ export const isSameDate = (date1: Date, date2: Date) => {
 /**
  * Format date for display
  */
-export const formatDate = (date: Date, formatString: string = 'MMM dd, yyyy') => {
-  return format(date, formatString);
+export const formatDate = (date: Date, formatString: string = 'MMM dd, yyyy', locale?: Locale) => {
+  return format(date, formatString, { locale });
 };
 
 /**
  * Format time for display
  */
-export const formatTime = (date: Date, format24h: boolean = false) => {
-  return format(date, format24h ? 'HH:mm' : 'h:mm a');
+export const formatTime = (date: Date, format24h: boolean = false, locale?: Locale) => {
+  return format(date, format24h ? 'HH:mm' : 'h:mm a', { locale });
+};
+
+/**
+ * Format date for display in an IANA time zone
+ */
+export const formatDateInTimeZone = (
+  date: Date,
+  timeZone: string,
+  formatString: string = 'MMM dd, yyyy',
+  locale?: Locale
+) => {
+  return formatInTimeZone(date, timeZone, formatString, { locale });
+};
+
+/**
+ * Format time for display in an IANA time zone
+ */
+export const formatTimeInTimeZone = (
+  date: Date,
+  timeZone: string,
+  format24h: boolean = false,
+  locale?: Locale
+) => {
+  return formatInTimeZone(date, timeZone, format24h ? 'HH:mm' : 'h:mm a', { locale });
+};
+
+/**
+ * Convert an instant to a "zoned" date whose local fields (year, month, day,
+ * hours...) show the wall-clock time in the given IANA time zone
+ * Zoned dates can be used with the regular date helpers for day grouping and layout
+ */
+export const toZonedDate = (date: Date | string, timeZone: string) => {
+  return utcToZonedTime(date, timeZone);
+};
+
+/**
+ * Convert a zoned date (wall-clock time in the given IANA time zone) back to the instant it represents
+ */
+export const fromZonedDate = (date: Date | string, timeZone: string) => {
+  return zonedTimeToUtc(date, timeZone);
+};
+
+/**
+ * Check if a zoned date falls on today in the given IANA time zone
+ */
+export const isTodayInTimeZone = (date: Date, timeZone: string) => {
+  return isSameDay(date, toZonedDate(new Date(), timeZone));
 };
 
 /**
@@ -137,25 +209,72 @@ export const getEndOfDay = (date: Date) => {
   return endOfDay;
 };
 
+/**
+ * Check if a date falls inside a clinic closure
+ * When a time zone is given, closure dates and times are read as wall-clock times in that zone
+ */
+export const isDuringClosure = (date: Date, closures: ClinicClosure[], timeZone?: string) => {
+  const localDate = timeZone ? toZonedDate(date, timeZone) : date;
+  const dateString = format(localDate, 'yyyy-MM-dd');
+  const timeString = format(localDate, 'HH:mm');
+
+  return closures.some(closure =>
+    dateString >= closure.startDate &&
+    dateString <= (closure.endDate || closure.startDate) &&
+    (!closure.startTime || timeString >= closure.startTime) &&
+    (!closure.endTime || timeString < closure.endTime)
+  );
+};
+
 /**
  * Check if a date is within business hours
+ * When a time zone is given, business hours are read as wall-clock times in that zone.
+ * Dates inside a clinic closure are outside business hours.
  */
 export const isWithinBusinessHours = (
   date: Date,
   businessStart: string,
   businessEnd: string,
-  businessDays: number[]
+  businessDays: number[],
+  timeZone?: string,
+  closures: ClinicClosure[] = []
 ) => {
-  const dayOfWeek = date.getDay();
-  const timeString = format(date, 'HH:mm');
+  const localDate = timeZone ? toZonedDate(date, timeZone) : date;
+  const dayOfWeek = localDate.getDay();
+  const timeString = format(localDate, 'HH:mm');
   
   return (
     businessDays.includes(dayOfWeek) &&
     timeString >= businessStart &&
-    timeString <= businessEnd
+    timeString <= businessEnd &&
+    !isDuringClosure(date, closures, timeZone)
   );
 };
 
+/**
+ * Convert an HH:mm time string to minutes since midnight
+ */
+export const timeStringToMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + (minute || 0);
+};
+
+/**
+ * Convert minutes since midnight to an HH:mm time string
+ */
+export const minutesToTimeString = (minutes: number) => {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Get the number of minutes elapsed since the start of the date's day
+ */
+export const getMinutesSinceStartOfDay = (date: Date) => {
+  return date.getHours() * 60 + date.getMinutes();
+};
+
 /**
  * Generate time slots for a day
  */
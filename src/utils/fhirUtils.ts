@@ -0,0 +1,497 @@
+import {
+  ApiResponse,
+  Appointment,
+  AppointmentEnumConfig,
+  AppointmentPriority,
+  AppointmentStatus,
+  AppointmentType,
+  AvailableSlot,
+  ConfigurableOption,
+  FhirAppointment,
+  FhirAppointmentParticipant,
+  FhirAppointmentStatus,
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirCoding,
+  FhirSlot,
+  getConfigurableOptions
+} from '../types';
+import { parseISODate } from './dateUtils';
+
+/**
+ * Utility functions for HL7 FHIR R4 Appointment and Slot mapping
+ * Status, priority and type are written both as standard FHIR elements and
+ * with this module's own code systems, so custom values survive a round trip.
+ * The standard codes can be overridden per option with `fhirCode`.
+ */
+
+// Code systems and extensions of this module
+const STATUS_EXTENSION = 'urn:x-calendar-module:appointment-status';
+const ONLINE_EXTENSION = 'urn:x-calendar-module:online-appointment';
+const MEETING_LINK_EXTENSION = 'urn:x-calendar-module:meeting-link';
+const PRIORITY_SYSTEM = 'urn:x-calendar-module:appointment-priority';
+const TYPE_SYSTEM = 'urn:x-calendar-module:appointment-type';
+
+// Standard code systems
+const APPOINTMENT_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0276';
+const ACT_PRIORITY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActPriority';
+const PARTICIPATION_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ParticipationType';
+
+// R5 Appointment.priority, carried in R4 as a cross-version extension
+const PRIORITY_EXTENSION = 'http://hl7.org/fhir/5.0/StructureDefinition/extension-Appointment.priority';
+
+const FHIR_STATUSES: FhirAppointmentStatus[] = [
+  'proposed',
+  'pending',
+  'booked',
+  'arrived',
+  'fulfilled',
+  'cancelled',
+  'noshow',
+  'entered-in-error',
+  'checked-in',
+  'waitlist',
+];
+
+const PARTICIPANT_STATUSES: FhirAppointmentParticipant['status'][] = ['accepted', 'declined', 'tentative', 'needs-action'];
+
+const DEFAULT_FHIR_STATUSES: Record<string, FhirAppointmentStatus> = {
+  [AppointmentStatus.SCHEDULED]: 'booked',
+  [AppointmentStatus.CONFIRMED]: 'booked',
+  [AppointmentStatus.IN_PROGRESS]: 'arrived',
+  [AppointmentStatus.COMPLETED]: 'fulfilled',
+  [AppointmentStatus.CANCELLED]: 'cancelled',
+  [AppointmentStatus.RESCHEDULED]: 'booked',
+  [AppointmentStatus.NO_SHOW]: 'noshow',
+};
+
+// Booked appointments are confirmed once the patient has accepted
+const STATUSES_FROM_FHIR: Record<FhirAppointmentStatus, string> = {
+  proposed: AppointmentStatus.SCHEDULED,
+  pending: AppointmentStatus.SCHEDULED,
+  waitlist: AppointmentStatus.SCHEDULED,
+  booked: AppointmentStatus.SCHEDULED,
+  arrived: AppointmentStatus.IN_PROGRESS,
+  'checked-in': AppointmentStatus.IN_PROGRESS,
+  fulfilled: AppointmentStatus.COMPLETED,
+  cancelled: AppointmentStatus.CANCELLED,
+  'entered-in-error': AppointmentStatus.CANCELLED,
+  noshow: AppointmentStatus.NO_SHOW,
+};
+
+const DEFAULT_PRIORITY_CODES: Record<string, string> = {
+  [AppointmentPriority.ROUTINE]: 'R',
+  [AppointmentPriority.URGENT]: 'UR',
+  [AppointmentPriority.EMERGENCY]: 'EM',
+  [AppointmentPriority.FOLLOW_UP]: 'R',
+};
+
+// Numeric priority, where 1 is the highest
+const FHIR_PRIORITIES: Record<string, number> = {
+  [AppointmentPriority.EMERGENCY]: 1,
+  [AppointmentPriority.URGENT]: 3,
+};
+
+const DEFAULT_TYPE_CODES: Record<string, string> = {
+  [AppointmentType.CONSULTATION]: 'ROUTINE',
+  [AppointmentType.FOLLOW_UP]: 'FOLLOWUP',
+  [AppointmentType.EMERGENCY]: 'EMERGENCY',
+  [AppointmentType.PREVENTIVE_CARE]: 'CHECKUP',
+};
+
+const getOption = (options: ConfigurableOption[], value: string) => {
+  return options.find(option => option.value === value);
+};
+
+// Match an imported code against configured options by value or label
+const findOption = (options: ConfigurableOption[], value?: string) => {
+  if (!value) return undefined;
+  const wanted = value.trim().toLowerCase();
+  return options.find(option => option.value.toLowerCase() === wanted || option.label.toLowerCase() === wanted);
+};
+
+const findOptionByFhirCode = (options: ConfigurableOption[], code?: string) => {
+  if (!code) return undefined;
+  return options.find(option => option.fhirCode === code);
+};
+
+const findCoding = (concept: FhirCodeableConcept | undefined, system: string) => {
+  return concept?.coding?.find(coding => coding.system === system);
+};
+
+const participantType = (code: string): FhirCodeableConcept[] => [
+  { coding: [{ system: PARTICIPATION_TYPE_SYSTEM, code }] },
+];
+
+const hasParticipantType = (participant: FhirAppointmentParticipant, code: string) => {
+  return !!participant.type?.some(type => findCoding(type, PARTICIPATION_TYPE_SYSTEM)?.code === code);
+};
+
+// Reference ID of the given resource type, e.g. 'patient-001' for 'Patient/patient-001'
+const getReferenceId = (participant: FhirAppointmentParticipant, resourceType: string) => {
+  const match = new RegExp(`(?:^|/)${resourceType}/([^/]+)$`).exec(participant.actor?.reference || '');
+  return match ? match[1] : undefined;
+};
+
+const getPatientParticipantStatus = (status: string): FhirAppointmentParticipant['status'] => {
+  switch (status) {
+    case AppointmentStatus.SCHEDULED:
+    case AppointmentStatus.RESCHEDULED:
+      return 'needs-action';
+    case AppointmentStatus.CANCELLED:
+      return 'declined';
+    default:
+      return 'accepted';
+  }
+};
+
+/**
+ * Convert an appointment to a FHIR R4 Appointment resource
+ * The patient and doctor become Patient and Practitioner participants and the
+ * location a location participant; with none of them, an unassigned
+ * practitioner participant is added. Symptoms become reason codes. Recurring
+ * appointments are converted as given; expand them first to send occurrences.
+ */
+export const toFhirAppointment = (
+  appointment: Appointment,
+  options: { enumConfig?: AppointmentEnumConfig } = {}
+): FhirAppointment => {
+  const { enumConfig } = options;
+  const status = getOption(getConfigurableOptions(enumConfig, 'statuses'), appointment.status);
+  const priority = getOption(getConfigurableOptions(enumConfig, 'priorities'), appointment.priority);
+  const type = getOption(getConfigurableOptions(enumConfig, 'types'), appointment.type);
+  const start = parseISODate(appointment.startTime);
+  const end = parseISODate(appointment.endTime);
+
+  const resource: FhirAppointment = {
+    resourceType: 'Appointment',
+    id: appointment.id,
+    status: (status?.fhirCode as FhirAppointmentStatus) || DEFAULT_FHIR_STATUSES[appointment.status] || 'booked',
+    extension: [{ url: STATUS_EXTENSION, valueCode: appointment.status }],
+    description: appointment.title,
+    start: start?.toISOString() || appointment.startTime,
+    end: end?.toISOString() || appointment.endTime,
+    participant: [],
+  };
+
+  if (start && end) resource.minutesDuration = Math.round((end.getTime() - start.getTime()) / 60000);
+  if (appointment.description) resource.comment = appointment.description;
+  if (appointment.isOnlineAppointment) resource.extension!.push({ url: ONLINE_EXTENSION, valueBoolean: true });
+  if (appointment.meetingLink) resource.extension!.push({ url: MEETING_LINK_EXTENSION, valueUrl: appointment.meetingLink });
+
+  if (appointment.priority) {
+    const coding: FhirCoding[] = [{ system: PRIORITY_SYSTEM, code: appointment.priority, display: priority?.label }];
+    const code = priority?.fhirCode || DEFAULT_PRIORITY_CODES[appointment.priority];
+    if (code) coding.unshift({ system: ACT_PRIORITY_SYSTEM, code });
+    resource.priority = FHIR_PRIORITIES[appointment.priority] ?? 5;
+    resource.extension!.push({ url: PRIORITY_EXTENSION, valueCodeableConcept: { coding, text: priority?.label } });
+  }
+
+  if (appointment.type) {
+    const coding: FhirCoding[] = [{ system: TYPE_SYSTEM, code: appointment.type, display: type?.label }];
+    const code = type?.fhirCode || DEFAULT_TYPE_CODES[appointment.type];
+    if (code) coding.unshift({ system: APPOINTMENT_TYPE_SYSTEM, code });
+    resource.appointmentType = { coding, text: type?.label || appointment.type };
+  }
+
+  if (appointment.symptoms && appointment.symptoms.length > 0) {
+    resource.reasonCode = appointment.symptoms.map(symptom => ({ text: symptom }));
+  }
+  if (appointment.cancellationReason) resource.cancelationReason = { text: appointment.cancellationReason };
+
+  // Participants: the patient, the practitioner and the location
+  if (appointment.patientId || appointment.patientName) {
+    resource.participant.push({
+      actor: {
+        reference: appointment.patientId ? `Patient/${appointment.patientId}` : undefined,
+        display: appointment.patientName,
+      },
+      required: 'required',
+      status: getPatientParticipantStatus(appointment.status),
+    });
+  }
+  if (appointment.doctorId || appointment.doctorName) {
+    resource.participant.push({
+      type: participantType('PPRF'),
+      actor: {
+        reference: appointment.doctorId ? `Practitioner/${appointment.doctorId}` : undefined,
+        display: appointment.doctorName,
+      },
+      required: 'required',
+      status: 'accepted',
+    });
+  }
+  if (appointment.location) {
+    resource.participant.push({
+      type: participantType('LOC'),
+      actor: { display: appointment.location },
+      required: 'information-only',
+      status: 'accepted',
+    });
+  }
+  // Appointments need a participant: without anyone assigned, a practitioner is still needed
+  if (resource.participant.length === 0) {
+    resource.participant.push({
+      type: participantType('PPRF'),
+      required: 'required',
+      status: 'needs-action',
+    });
+  }
+
+  const created = parseISODate(appointment.createdAt);
+  const updated = parseISODate(appointment.updatedAt);
+  if (created) resource.created = created.toISOString();
+  if (updated) resource.meta = { lastUpdated: updated.toISOString() };
+
+  return resource;
+};
+
+/**
+ * Convert a FHIR R4 Appointment resource to an appointment
+ * Status, priority and type are matched against the enumConfig options: this
+ * module's codes first, then the options' `fhirCode`, then the standard codes,
+ * falling back to the first option. Use validateFhirAppointment first for
+ * resources from outside sources.
+ */
+export const fromFhirAppointment = (
+  resource: FhirAppointment,
+  options: { enumConfig?: AppointmentEnumConfig; now?: Date } = {}
+): Appointment => {
+  const { enumConfig, now = new Date() } = options;
+  const statusOptions = getConfigurableOptions(enumConfig, 'statuses');
+  const priorityOptions = getConfigurableOptions(enumConfig, 'priorities');
+  const typeOptions = getConfigurableOptions(enumConfig, 'types');
+  const extensions = resource.extension || [];
+  const getExtension = (url: string) => extensions.find(extension => extension.url === url);
+  const participants = resource.participant || [];
+
+  const patient = participants.find(participant => getReferenceId(participant, 'Patient') !== undefined) ||
+    participants.find(participant => !participant.type && !participant.actor?.reference);
+  const doctor = participants.find(participant => getReferenceId(participant, 'Practitioner') !== undefined) ||
+    participants.find(participant => hasParticipantType(participant, 'PPRF') || hasParticipantType(participant, 'ATND'));
+  const location = participants.find(participant =>
+    hasParticipantType(participant, 'LOC') || getReferenceId(participant, 'Location') !== undefined
+  );
+
+  const defaultStatus = resource.status === 'booked' && patient?.status === 'accepted'
+    ? AppointmentStatus.CONFIRMED
+    : STATUSES_FROM_FHIR[resource.status];
+  const status = findOption(statusOptions, getExtension(STATUS_EXTENSION)?.valueCode) ||
+    findOptionByFhirCode(statusOptions, resource.status) ||
+    findOption(statusOptions, defaultStatus) ||
+    statusOptions[0];
+
+  const priorityConcept = getExtension(PRIORITY_EXTENSION)?.valueCodeableConcept;
+  const actPriority = findCoding(priorityConcept, ACT_PRIORITY_SYSTEM)?.code;
+  const priorityFromNumber = resource.priority !== undefined && resource.priority >= 1 && resource.priority <= 2
+    ? AppointmentPriority.EMERGENCY
+    : resource.priority !== undefined && resource.priority >= 3 && resource.priority <= 4
+      ? AppointmentPriority.URGENT
+      : AppointmentPriority.ROUTINE;
+  const priority = findOption(priorityOptions, findCoding(priorityConcept, PRIORITY_SYSTEM)?.code) ||
+    findOptionByFhirCode(priorityOptions, actPriority) ||
+    findOption(priorityOptions, Object.keys(DEFAULT_PRIORITY_CODES).find(key => DEFAULT_PRIORITY_CODES[key] === actPriority)) ||
+    findOption(priorityOptions, priorityFromNumber) ||
+    priorityOptions[0];
+
+  const typeCode = findCoding(resource.appointmentType, APPOINTMENT_TYPE_SYSTEM)?.code;
+  const type = findOption(typeOptions, findCoding(resource.appointmentType, TYPE_SYSTEM)?.code) ||
+    findOptionByFhirCode(typeOptions, typeCode) ||
+    findOption(typeOptions, Object.keys(DEFAULT_TYPE_CODES).find(key => DEFAULT_TYPE_CODES[key] === typeCode)) ||
+    findOption(typeOptions, resource.appointmentType?.text) ||
+    typeOptions[0];
+
+  const start = resource.start ? parseISODate(resource.start) : null;
+  const end = resource.end ? parseISODate(resource.end) : null;
+  const created = resource.created ? parseISODate(resource.created) : null;
+  const updated = resource.meta?.lastUpdated ? parseISODate(resource.meta.lastUpdated) : null;
+
+  const appointment: Appointment = {
+    id: resource.id || `fhir-${start ? start.getTime() : now.getTime()}`,
+    title: resource.description || resource.appointmentType?.text || '',
+    startTime: start?.toISOString() || '',
+    endTime: (end || (start && resource.minutesDuration !== undefined
+      ? new Date(start.getTime() + resource.minutesDuration * 60000)
+      : start))?.toISOString() || '',
+    status: status?.value || AppointmentStatus.SCHEDULED,
+    priority: priority?.value || AppointmentPriority.ROUTINE,
+    type: type?.value || '',
+    createdAt: (created || now).toISOString(),
+    updatedAt: (updated || created || now).toISOString(),
+  };
+
+  if (resource.comment) appointment.description = resource.comment;
+  if (patient) {
+    const patientId = getReferenceId(patient, 'Patient');
+    if (patientId) appointment.patientId = patientId;
+    if (patient.actor?.display) appointment.patientName = patient.actor.display;
+  }
+  if (doctor) {
+    const doctorId = getReferenceId(doctor, 'Practitioner');
+    if (doctorId) appointment.doctorId = doctorId;
+    if (doctor.actor?.display) appointment.doctorName = doctor.actor.display;
+  }
+  if (location?.actor?.display) appointment.location = location.actor.display;
+
+  const meetingLink = getExtension(MEETING_LINK_EXTENSION)?.valueUrl;
+  if (meetingLink) appointment.meetingLink = meetingLink;
+  if (meetingLink || getExtension(ONLINE_EXTENSION)?.valueBoolean) appointment.isOnlineAppointment = true;
+
+  const symptoms = (resource.reasonCode || [])
+    .map(reason => reason.text || reason.coding?.find(coding => coding.display)?.display)
+    .filter((symptom): symptom is string => !!symptom);
+  if (symptoms.length > 0) appointment.symptoms = symptoms;
+
+  const cancellationReason = resource.cancelationReason?.text || resource.cancelationReason?.coding?.[0]?.display;
+  if (cancellationReason) appointment.cancellationReason = cancellationReason;
+
+  return appointment;
+};
+
+/**
+ * Check a FHIR Appointment resource before conversion
+ * Returns the problems found (empty when valid): a known status, at least one
+ * participant with an actor or type, and valid start and end times in order.
+ */
+export const validateFhirAppointment = (resource: unknown): string[] => {
+  const errors: string[] = [];
+  if (!resource || typeof resource !== 'object' || (resource as FhirAppointment).resourceType !== 'Appointment') {
+    return ['Resource is not an Appointment'];
+  }
+
+  const appointment = resource as FhirAppointment;
+  if (!FHIR_STATUSES.includes(appointment.status)) {
+    errors.push(`Unknown status '${appointment.status}'`);
+  }
+
+  if (!Array.isArray(appointment.participant) || appointment.participant.length === 0) {
+    errors.push('At least one participant is required');
+  } else {
+    appointment.participant.forEach((participant, index) => {
+      if (!participant.actor && !participant.type) {
+        errors.push(`Participant ${index + 1} needs an actor or a type`);
+      }
+      if (!PARTICIPANT_STATUSES.includes(participant.status)) {
+        errors.push(`Participant ${index + 1} has an unknown status '${participant.status}'`);
+      }
+    });
+  }
+
+  const start = appointment.start ? parseISODate(appointment.start) : null;
+  const end = appointment.end ? parseISODate(appointment.end) : null;
+  if (!start) errors.push('A valid start time is required');
+  if (!end && appointment.minutesDuration === undefined) errors.push('A valid end time is required');
+  if (start && end && end < start) errors.push('End time is before start time');
+
+  return errors;
+};
+
+/**
+ * Parse a FHIR Bundle (or its JSON) into appointments
+ * Appointment entries are validated and converted; other resources, such as
+ * included patients, are ignored. Invalid entries are skipped and reported in
+ * `errors`, and `success` is false when any entry was skipped.
+ */
+export const parseFhirBundle = (
+  bundle: FhirBundle | string,
+  options: { enumConfig?: AppointmentEnumConfig; now?: Date } = {}
+): ApiResponse<Appointment[]> => {
+  let parsed: FhirBundle;
+  try {
+    parsed = typeof bundle === 'string' ? JSON.parse(bundle) : bundle;
+  } catch (error) {
+    return { success: false, data: [], message: 'Invalid FHIR Bundle JSON', errors: [String(error)] };
+  }
+
+  if (!parsed || parsed.resourceType !== 'Bundle') {
+    return { success: false, data: [], message: 'Resource is not a FHIR Bundle', errors: ['Expected resourceType Bundle'] };
+  }
+
+  // Included resources such as patients are not counted as results
+  const resources = (parsed.entry || [])
+    .map(entry => entry.resource)
+    .filter((resource): resource is FhirAppointment => resource?.resourceType === 'Appointment');
+  const appointments: Appointment[] = [];
+  const errors: string[] = [];
+
+  resources.forEach((resource, index) => {
+    const resourceErrors = validateFhirAppointment(resource);
+    if (resourceErrors.length > 0) {
+      const label = resource.id ? `Appointment/${resource.id}` : `Appointment ${index + 1}`;
+      errors.push(...resourceErrors.map(error => `${label}: ${error}`));
+    } else {
+      appointments.push(fromFhirAppointment(resource, options));
+    }
+  });
+
+  const response: ApiResponse<Appointment[]> = {
+    success: errors.length === 0,
+    data: appointments,
+    message: errors.length === 0
+      ? 'Appointments retrieved successfully'
+      : 'Some appointments in the bundle are invalid and were skipped',
+  };
+  if (errors.length > 0) response.errors = errors;
+  if (parsed.total !== undefined && resources.length > 0) {
+    response.pagination = {
+      page: 1,
+      limit: resources.length,
+      total: parsed.total,
+      totalPages: Math.ceil(parsed.total / resources.length),
+    };
+  }
+  return response;
+};
+
+/**
+ * Wrap appointments in a FHIR Bundle of Appointment resources
+ * Entries are identified by their absolute URL on the FHIR server at
+ * `baseUrl`, e.g. 'https://ehr.example.org/fhir', or else by a relative
+ * 'Appointment/<id>' reference.
+ */
+export const toFhirBundle = (
+  appointments: Appointment[],
+  options: { enumConfig?: AppointmentEnumConfig; type?: FhirBundle['type']; baseUrl?: string } = {}
+): FhirBundle => {
+  const { type = 'collection', baseUrl } = options;
+  const prefix = baseUrl ? `${baseUrl.replace(/\/+$/, '')}/` : '';
+  return {
+    resourceType: 'Bundle',
+    type,
+    total: type === 'searchset' ? appointments.length : undefined,
+    entry: appointments.map(appointment => ({
+      fullUrl: `${prefix}Appointment/${appointment.id}`,
+      resource: toFhirAppointment(appointment, options),
+    })),
+  };
+};
+
+/**
+ * Convert an available slot (see findAvailableSlots) to a FHIR Slot resource
+ * The schedule is the provider's FHIR Schedule, e.g. 'Schedule/doctor-001'.
+ */
+export const toFhirSlot = (
+  slot: AvailableSlot,
+  options: { schedule: string; id?: string; status?: FhirSlot['status'] }
+): FhirSlot => {
+  const { schedule, id, status = 'free' } = options;
+  return {
+    resourceType: 'Slot',
+    id: id || `${schedule.replace(/^Schedule\//, '')}-${slot.start.getTime()}`,
+    schedule: { reference: schedule },
+    status,
+    start: slot.start.toISOString(),
+    end: slot.end.toISOString(),
+  };
+};
+
+/**
+ * Convert a FHIR Slot resource to an available slot
+ * Returns null for slots that are not free or have invalid times.
+ */
+export const fromFhirSlot = (resource: FhirSlot): AvailableSlot | null => {
+  if (resource.resourceType !== 'Slot' || resource.status !== 'free') return null;
+  const start = parseISODate(resource.start);
+  const end = parseISODate(resource.end);
+  return start && end && start < end ? { start, end } : null;
+};
@@ -0,0 +1,597 @@
+import { addDays } from 'date-fns';
+import {
+  Appointment,
+  AppointmentEnumConfig,
+  AppointmentPriority,
+  AppointmentStatus,
+  ConfigurableOption,
+  PolicyRule,
+  PolicyUser,
+  getConfigurableOptions
+} from '../types';
+import { formatDateInTimeZone, fromZonedDate, parseISODate } from './dateUtils';
+import { maskAppointments } from './policyUtils';
+
+/**
+ * Utility functions for iCalendar (RFC 5545) export and import
+ * Appointments become VEVENTs. Status, priority and type are written both as
+ * standard properties and as X-APPOINTMENT-* properties so custom values
+ * survive a round trip.
+ */
+
+const PRODUCT_ID = '-//Calendar Module//Appointments//EN';
+
+// Calendar address of a doctor, who has no email on the appointment
+const DOCTOR_URI_PREFIX = 'urn:x-calendar-module:doctor:';
+
+// Longest content line before folding, in octets
+const MAX_LINE_OCTETS = 75;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const ICS_PRIORITIES: Record<string, number> = {
+  [AppointmentPriority.EMERGENCY]: 1,
+  [AppointmentPriority.URGENT]: 3,
+};
+
+/**
+ * Property of an iCalendar component, with its parameters
+ */
+interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const escapeText = (value: string) => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+const unescapeText = (value: string) => {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+// Parameter values with separators are quoted; quotes are not allowed inside
+const formatParam = (value: string) => {
+  const cleaned = value.replace(/"/g, "'");
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+};
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Fold a content line into lines of at most 75 octets, continued with a space
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n');
+};
+
+// UTC form, e.g. 20240115T090000Z
+const formatUTCDateTime = (date: Date) => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Local form of a UTC instant shifted by an offset, e.g. 20240310T020000
+const formatLocalDateTime = (time: number, offset: number) => {
+  return formatUTCDateTime(new Date(time + offset)).replace(/Z$/, '');
+};
+
+// UTC offset in milliseconds as an iCalendar UTC-OFFSET, e.g. -0500
+const formatUTCOffset = (offset: number) => {
+  const minutes = Math.round(Math.abs(offset) / MINUTE_MS);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${offset < 0 ? '-' : '+'}${hours}${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// UTC offset of a time zone at a UTC instant, in milliseconds
+const getUTCOffset = (timeZone: string, time: number) => {
+  const wallClock = formatDateInTimeZone(new Date(time), timeZone, "yyyy-MM-dd'T'HH:mm:ss'Z'");
+  return Date.parse(wallClock) - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * Change of a time zone's UTC offset, at a UTC instant
+ */
+interface OffsetTransition {
+  time: number;
+  from: number;
+  to: number;
+}
+
+// Offset changes during the given UTC years, found day by day and narrowed to the minute
+const findOffsetTransitions = (timeZone: string, fromYear: number, toYear: number) => {
+  const transitions: OffsetTransition[] = [];
+  const end = Date.UTC(toYear + 1, 0, 1);
+  let time = Date.UTC(fromYear, 0, 1);
+  let offset = getUTCOffset(timeZone, time);
+
+  while (time < end) {
+    const next = time + DAY_MS;
+    const nextOffset = getUTCOffset(timeZone, next);
+    if (nextOffset !== offset) {
+      let before = time;
+      let after = next;
+      while (after - before > MINUTE_MS) {
+        const middle = before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getUTCOffset(timeZone, middle) === offset) {
+          before = middle;
+        } else {
+          after = middle;
+        }
+      }
+      transitions.push({ time: after, from: offset, to: nextOffset });
+    }
+    time = next;
+    offset = nextOffset;
+  }
+
+  return transitions;
+};
+
+// Yearly rule of a transition's local date, e.g. FREQ=YEARLY;BYMONTH=3;BYDAY=2SU
+const getTransitionRule = (transition: OffsetTransition) => {
+  const local = new Date(transition.time + transition.from);
+  const day = local.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${WEEKDAYS[local.getUTCDay()]}`;
+};
+
+const toObservance = (name: 'STANDARD' | 'DAYLIGHT', start: string, from: number, to: number, rule?: string) => {
+  const lines = [
+    `BEGIN:${name}`,
+    `DTSTART:${start}`,
+    `TZOFFSETFROM:${formatUTCOffset(from)}`,
+    `TZOFFSETTO:${formatUTCOffset(to)}`,
+  ];
+  if (rule) lines.push(`RRULE:${rule}`);
+  lines.push(`END:${name}`);
+  return lines;
+};
+
+/**
+ * VTIMEZONE of the TZID used for the given dates (RFC 5545 section 3.6.5)
+ * The offset changes of the years the dates fall in are written one by one.
+ * Those of the last year repeat yearly when the next year follows the same
+ * rule, so open-ended recurrences keep their local time.
+ */
+const toVTimeZone = (timeZone: string, dates: Date[]) => {
+  const years = dates.map(date => date.getUTCFullYear());
+  const fromYear = Math.min(...years);
+  const toYear = Math.max(...years);
+  const transitions = findOffsetTransitions(timeZone, fromYear, toYear + 1);
+  const covered = transitions.filter(transition => new Date(transition.time).getUTCFullYear() <= toYear);
+  const following = transitions.filter(transition => new Date(transition.time).getUTCFullYear() > toYear);
+
+  // The offset in effect before the first change, from the epoch on
+  const initial = getUTCOffset(timeZone, Date.UTC(fromYear, 0, 1));
+  const initialName = covered[0] && covered[0].to < covered[0].from ? 'DAYLIGHT' : 'STANDARD';
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...toObservance(initialName, '19700101T000000', initial, initial),
+  ];
+
+  covered.forEach(transition => {
+    const rule = getTransitionRule(transition);
+    const repeats = new Date(transition.time).getUTCFullYear() === toYear && following.some(next =>
+      next.from === transition.from && next.to === transition.to && getTransitionRule(next) === rule
+    );
+    lines.push(...toObservance(
+      transition.to > transition.from ? 'DAYLIGHT' : 'STANDARD',
+      formatLocalDateTime(transition.time, transition.from),
+      transition.from,
+      transition.to,
+      repeats ? rule : undefined
+    ));
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+// DATE-TIME property in UTC, or as wall-clock time with a TZID
+const formatDateTimeProperty = (name: string, dates: Date[], timeZone: string) => {
+  if (timeZone === 'UTC') {
+    return `${name}:${dates.map(formatUTCDateTime).join(',')}`;
+  }
+  const values = dates.map(date => formatDateInTimeZone(date, timeZone, "yyyyMMdd'T'HHmmss"));
+  return `${name};TZID=${timeZone}:${values.join(',')}`;
+};
+
+const getICSStatus = (status: string) => {
+  switch (status) {
+    case AppointmentStatus.CANCELLED:
+    case AppointmentStatus.NO_SHOW:
+      return 'CANCELLED';
+    case AppointmentStatus.SCHEDULED:
+    case AppointmentStatus.RESCHEDULED:
+      return 'TENTATIVE';
+    default:
+      return 'CONFIRMED';
+  }
+};
+
+const getOptionLabel = (options: ConfigurableOption[], value: string) => {
+  return options.find(option => option.value === value)?.label || value;
+};
+
+const toVEvent = (
+  appointment: Appointment,
+  options: { timeZone: string; enumConfig?: AppointmentEnumConfig; now: Date }
+) => {
+  const { timeZone, enumConfig, now } = options;
+  const start = parseISODate(appointment.startTime);
+  const end = parseISODate(appointment.endTime);
+  if (!start || !end) return [];
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}`,
+    `DTSTAMP:${formatUTCDateTime(now)}`,
+    formatDateTimeProperty('DTSTART', [start], timeZone),
+    formatDateTimeProperty('DTEND', [end], timeZone),
+    `SUMMARY:${escapeText(appointment.title)}`,
+  ];
+
+  if (appointment.description) lines.push(`DESCRIPTION:${escapeText(appointment.description)}`);
+  if (appointment.location) lines.push(`LOCATION:${escapeText(appointment.location)}`);
+  if (appointment.meetingLink) lines.push(`URL:${appointment.meetingLink}`);
+  if (appointment.isOnlineAppointment) lines.push('X-APPOINTMENT-ONLINE:TRUE');
+
+  lines.push(`STATUS:${getICSStatus(appointment.status)}`);
+  lines.push(`X-APPOINTMENT-STATUS:${escapeText(appointment.status)}`);
+  if (appointment.priority) {
+    lines.push(`PRIORITY:${ICS_PRIORITIES[appointment.priority] ?? 5}`);
+    lines.push(`X-APPOINTMENT-PRIORITY:${escapeText(appointment.priority)}`);
+  }
+  if (appointment.type) {
+    lines.push(`CATEGORIES:${escapeText(getOptionLabel(getConfigurableOptions(enumConfig, 'types'), appointment.type))}`);
+    lines.push(`X-APPOINTMENT-TYPE:${escapeText(appointment.type)}`);
+  }
+
+  // Attendees: the doctor chairs the visit, the patient is invited by email
+  if (appointment.doctorName || appointment.doctorId) {
+    const cn = appointment.doctorName ? `;CN=${formatParam(appointment.doctorName)}` : '';
+    const doctorKey = encodeURIComponent(appointment.doctorId || appointment.doctorName!);
+    lines.push(`ATTENDEE${cn};ROLE=CHAIR:${DOCTOR_URI_PREFIX}${doctorKey}`);
+  }
+  if (appointment.patientEmail) {
+    const cn = appointment.patientName ? `;CN=${formatParam(appointment.patientName)}` : '';
+    lines.push(`ATTENDEE${cn};ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:${appointment.patientEmail}`);
+  }
+
+  if (appointment.recurrence) {
+    lines.push(`RRULE:${appointment.recurrence.rrule.replace(/^RRULE:/i, '')}`);
+    const exdates = (appointment.recurrence.exdates || [])
+      .map(exdate => parseISODate(exdate))
+      .filter((exdate): exdate is Date => !!exdate);
+    if (exdates.length > 0) lines.push(formatDateTimeProperty('EXDATE', exdates, timeZone));
+  }
+
+  if (appointment.isBusy) lines.push('CLASS:PRIVATE');
+
+  const created = parseISODate(appointment.createdAt);
+  const updated = parseISODate(appointment.updatedAt);
+  if (created) lines.push(`CREATED:${formatUTCDateTime(created)}`);
+  if (updated) lines.push(`LAST-MODIFIED:${formatUTCDateTime(updated)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serialize appointments to an iCalendar feed of VEVENTs
+ * Times are written in UTC, or as wall-clock times with a TZID when a time
+ * zone is given, so recurrence rules repeat at the same local time. The TZID
+ * is defined by a VTIMEZONE with the zone's offset changes. With a
+ * `currentUser`, appointments are masked by the access policy first (see
+ * maskAppointments).
+ */
+export const toICS = (
+  appointments: Appointment[],
+  options: {
+    timeZone?: string;
+    calendarName?: string;
+    enumConfig?: AppointmentEnumConfig;
+    currentUser?: PolicyUser;
+    policy?: PolicyRule[];
+    busyTitle?: string;
+    now?: Date;
+  } = {}
+) => {
+  const { timeZone = 'UTC', calendarName, enumConfig, currentUser, policy, busyTitle, now = new Date() } = options;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (calendarName) lines.push(`X-WR-CALNAME:${escapeText(calendarName)}`);
+  if (timeZone !== 'UTC') lines.push(`X-WR-TIMEZONE:${timeZone}`);
+
+  const masked = maskAppointments(appointments, currentUser, { policy, busyTitle });
+  const dates = masked
+    .flatMap(appointment => [appointment.startTime, appointment.endTime, ...(appointment.recurrence?.exdates || [])])
+    .map(date => parseISODate(date))
+    .filter((date): date is Date => !!date);
+  if (timeZone !== 'UTC' && dates.length > 0) lines.push(...toVTimeZone(timeZone, dates));
+
+  masked.forEach(appointment => {
+    lines.push(...toVEvent(appointment, { timeZone, enumConfig, now }));
+  });
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Save appointments as an .ics file in the browser (see toICS)
+ */
+export const downloadICS = (
+  appointments: Appointment[],
+  filename: string = 'appointments.ics',
+  options: Parameters<typeof toICS>[1] = {}
+) => {
+  const blob = new Blob([toICS(appointments, options)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Split a content line at separators outside quoted parameter values
+const splitOutsideQuotes = (text: string, separator: string, limit: number = Infinity) => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+};
+
+const parseContentLine = (line: string): ICSProperty | null => {
+  const [head, value] = splitOutsideQuotes(line, ':', 2);
+  if (value === undefined) return null;
+
+  const [name, ...paramParts] = splitOutsideQuotes(head, ';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, paramValue = ''] = part.split('=');
+    params[key.trim().toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+  });
+
+  return { name: name.trim().toUpperCase(), params, value };
+};
+
+// DATE or DATE-TIME value; floating times are read in `timeZone`
+const parseDateValue = (value: string, params: Record<string, string>, timeZone: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00', utc] = match;
+  const wallClock = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+  if (utc) return new Date(`${wallClock}Z`);
+
+  // Unknown TZIDs (such as Windows zone names) fall back to `timeZone`
+  let date: Date;
+  try {
+    date = fromZonedDate(wallClock, params.TZID || timeZone);
+  } catch {
+    date = fromZonedDate(wallClock, timeZone);
+  }
+  if (isNaN(date.getTime())) date = fromZonedDate(wallClock, timeZone);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// DURATION value in milliseconds, e.g. PT30M or P1D
+const parseDuration = (value: string) => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    (parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * 86400 +
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes || '0', 10) * 60 +
+    parseInt(seconds || '0', 10);
+  return (sign === '-' ? -total : total) * 1000;
+};
+
+// Match an imported value against configured options by value or label
+const findOption = (options: ConfigurableOption[], value?: string) => {
+  if (!value) return undefined;
+  const wanted = value.trim().toLowerCase();
+  return options.find(option => option.value.toLowerCase() === wanted || option.label.toLowerCase() === wanted);
+};
+
+const fromVEvent = (
+  properties: ICSProperty[],
+  index: number,
+  options: { timeZone: string; enumConfig?: AppointmentEnumConfig; now: Date }
+): Appointment | null => {
+  const { timeZone, enumConfig, now } = options;
+  const get = (name: string) => properties.find(property => property.name === name);
+  const getText = (name: string) => {
+    const property = get(name);
+    return property ? unescapeText(property.value) : undefined;
+  };
+
+  const startProperty = get('DTSTART');
+  const start = startProperty && parseDateValue(startProperty.value, startProperty.params, timeZone);
+  if (!start) return null;
+
+  const isAllDay = startProperty.params.VALUE === 'DATE' || /^\d{8}$/.test(startProperty.value.trim());
+  const endProperty = get('DTEND');
+  const duration = get('DURATION') && parseDuration(get('DURATION')!.value);
+  let end = endProperty && parseDateValue(endProperty.value, endProperty.params, timeZone);
+  if (!end) {
+    end = duration !== null && duration !== undefined
+      ? new Date(start.getTime() + duration)
+      : isAllDay ? addDays(start, 1) : start;
+  }
+
+  // Enum values: exact X-APPOINTMENT-* values first, then the standard properties
+  const statusOptions = getConfigurableOptions(enumConfig, 'statuses');
+  const priorityOptions = getConfigurableOptions(enumConfig, 'priorities');
+  const typeOptions = getConfigurableOptions(enumConfig, 'types');
+  const icsStatuses: Record<string, string> = {
+    TENTATIVE: AppointmentStatus.SCHEDULED,
+    CONFIRMED: AppointmentStatus.CONFIRMED,
+    CANCELLED: AppointmentStatus.CANCELLED,
+  };
+  const icsPriority = parseInt(get('PRIORITY')?.value || '', 10);
+  const priorityFromICS = icsPriority >= 1 && icsPriority <= 2
+    ? AppointmentPriority.EMERGENCY
+    : icsPriority >= 3 && icsPriority <= 4 ? AppointmentPriority.URGENT : AppointmentPriority.ROUTINE;
+
+  const status = findOption(statusOptions, getText('X-APPOINTMENT-STATUS')) ||
+    findOption(statusOptions, icsStatuses[get('STATUS')?.value.trim().toUpperCase() || '']) ||
+    statusOptions[0];
+  const priority = findOption(priorityOptions, getText('X-APPOINTMENT-PRIORITY')) ||
+    findOption(priorityOptions, priorityFromICS) ||
+    priorityOptions[0];
+  const type = findOption(typeOptions, getText('X-APPOINTMENT-TYPE')) ||
+    splitOutsideQuotes(get('CATEGORIES')?.value || '', ',')
+      .map(category => findOption(typeOptions, unescapeText(category)))
+      .find(Boolean) ||
+    typeOptions[0];
+
+  const appointment: Appointment = {
+    id: get('UID')?.value.trim() || `ics-${start.getTime()}-${index}`,
+    title: getText('SUMMARY') || '',
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    status: status?.value || AppointmentStatus.SCHEDULED,
+    priority: priority?.value || AppointmentPriority.ROUTINE,
+    type: type?.value || '',
+    createdAt: '',
+    updatedAt: '',
+  };
+
+  const description = getText('DESCRIPTION');
+  const location = getText('LOCATION');
+  const url = get('URL')?.value.trim();
+  if (description) appointment.description = description;
+  if (location) appointment.location = location;
+  if (url) appointment.meetingLink = url;
+  if (url || get('X-APPOINTMENT-ONLINE')?.value.trim().toUpperCase() === 'TRUE') {
+    appointment.isOnlineAppointment = true;
+  }
+
+  // The chair (or calendar-module doctor address) is the doctor; the first other attendee is the patient
+  properties.filter(property => property.name === 'ATTENDEE').forEach(attendee => {
+    const address = attendee.value.trim();
+    if (attendee.params.ROLE === 'CHAIR' || address.startsWith(DOCTOR_URI_PREFIX)) {
+      if (appointment.doctorName || appointment.doctorId) return;
+      if (attendee.params.CN) appointment.doctorName = attendee.params.CN;
+      if (address.startsWith(DOCTOR_URI_PREFIX)) {
+        appointment.doctorId = decodeURIComponent(address.slice(DOCTOR_URI_PREFIX.length));
+      }
+    } else if (!appointment.patientEmail && !appointment.patientName) {
+      if (attendee.params.CN) appointment.patientName = attendee.params.CN;
+      if (/^mailto:/i.test(address)) appointment.patientEmail = address.replace(/^mailto:/i, '');
+    }
+  });
+
+  const rrule = get('RRULE')?.value.trim();
+  if (rrule) {
+    const exdates = properties
+      .filter(property => property.name === 'EXDATE')
+      .flatMap(property => property.value.split(',').map(value => parseDateValue(value, property.params, timeZone)))
+      .filter((exdate): exdate is Date => !!exdate)
+      .map(exdate => exdate.toISOString());
+    appointment.recurrence = exdates.length > 0 ? { rrule, exdates } : { rrule };
+  }
+
+  const createdProperty = get('CREATED') || get('DTSTAMP');
+  const updatedProperty = get('LAST-MODIFIED');
+  const created = createdProperty && parseDateValue(createdProperty.value, createdProperty.params, timeZone);
+  const updated = updatedProperty && parseDateValue(updatedProperty.value, updatedProperty.params, timeZone);
+  appointment.createdAt = (created || now).toISOString();
+  appointment.updatedAt = (updated || created || now).toISOString();
+
+  return appointment;
+};
+
+/**
+ * Parse an iCalendar feed into appointments, one per VEVENT
+ * Status, priority and type are matched against the enumConfig options by
+ * value or label, falling back to the first option. Floating times are read in
+ * `timeZone`. VEVENTs without a valid DTSTART are skipped.
+ */
+export const fromICS = (
+  text: string,
+  options: { enumConfig?: AppointmentEnumConfig; timeZone?: string; now?: Date } = {}
+): Appointment[] => {
+  const { enumConfig, timeZone = 'UTC', now = new Date() } = options;
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const appointments: Appointment[] = [];
+  let event: ICSProperty[] | null = null;
+  let nestedDepth = 0;
+
+  lines.forEach(line => {
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VEVENT') {
+      event = [];
+      nestedDepth = 0;
+    } else if (event && property.name === 'BEGIN') {
+      // Alarms and other nested components are skipped
+      nestedDepth++;
+    } else if (event && property.name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+    } else if (event && property.name === 'END' && property.value.trim().toUpperCase() === 'VEVENT') {
+      const appointment = fromVEvent(event, appointments.length, { timeZone, enumConfig, now });
+      if (appointment) appointments.push(appointment);
+      event = null;
+    } else if (event && nestedDepth === 0) {
+      event.push(property);
+    }
+  });
+
+  return appointments;
+};
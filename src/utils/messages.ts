@@ -0,0 +1,476 @@
+import type { Locale } from 'date-fns';
+import { CalendarMessages } from '../types';
+
+/**
+ * UI text bundled with the calendar module
+ * Templates use {name} placeholders, filled in by formatMessage
+ */
+
+/**
+ * English UI text (default)
+ */
+export const enMessages: CalendarMessages = {
+  // Calendar navigation and views
+  today: 'Today',
+  previous: 'Previous',
+  next: 'Next',
+  viewMonth: 'Month',
+  viewWeek: 'Week',
+  viewWorkWeek: 'Work week',
+  viewDay: 'Day',
+  viewAgenda: 'Agenda',
+  viewResource: 'Resources',
+  appointmentCountOne: '{count} appointment',
+  appointmentCountOther: '{count} appointments',
+  moreAppointments: '+{count} more',
+  noAppointmentsForDay: 'No appointments scheduled for this day',
+  noAppointmentsForPeriod: 'No appointments found for the selected period',
+  noResources: 'No resources configured',
+  loadingAppointments: 'Loading appointments...',
+  errorLoadingAppointments: 'Error loading appointments',
+  retry: 'Retry',
+
+  // Appointment details
+  joinMeeting: 'Join Meeting',
+  symptomsLabel: 'Symptoms:',
+  diagnosisLabel: 'Diagnosis:',
+  prescriptionLabel: 'Prescription:',
+  followUpRequiredLabel: 'Follow-up Required:',
+  followUpScheduledFor: 'Scheduled for {date}',
+  followUpToBeDetermined: 'Date to be determined',
+  notesLabel: 'Notes:',
+  recurringAppointment: 'Recurring appointment',
+  conflictingAppointment: 'Scheduling conflict',
+  busy: 'Busy',
+  downloadIcs: 'Download .ics',
+
+  // Recurring appointment edits
+  editRecurringTitle: 'Edit recurring appointment',
+  applyChangesTo: 'Apply changes to',
+  editScopeThis: 'This occurrence',
+  editScopeFollowing: 'This and following occurrences',
+  editScopeAll: 'All occurrences',
+
+  // Appointment form
+  createAppointmentTitle: 'Create New Appointment',
+  editAppointmentTitle: 'Edit Appointment',
+  title: 'Title',
+  titlePlaceholder: 'Enter appointment title',
+  description: 'Description',
+  descriptionPlaceholder: 'Enter appointment description',
+  startTime: 'Start Time',
+  endTime: 'End Time',
+  presetThirtyMinutes: '30 minutes',
+  presetOneHour: '1 hour',
+  presetNinetyMinutes: '1.5 hours',
+  presetTwoHours: '2 hours',
+  status: 'Status',
+  statusModeratorsOnly: 'Only moderators can change appointment status',
+  statusTransitionNotAllowed: 'The status cannot change from {from} to {to}',
+  statusFieldsRequired: 'Fill in the fields required for this status change',
+  cancellationReason: 'Cancellation reason',
+  cancellationReasonPlaceholder: 'Why is the appointment cancelled?',
+  requiredForStatusChange: 'Required for this status change',
+  priority: 'Priority',
+  appointmentType: 'Appointment Type',
+  patientInformation: 'Patient Information',
+  patientName: 'Patient Name',
+  patientNamePlaceholder: 'Enter patient name',
+  patientEmail: 'Patient Email',
+  patientEmailPlaceholder: 'Enter patient email',
+  patientPhone: 'Patient Phone',
+  patientPhonePlaceholder: 'Enter patient phone',
+  dateOfBirth: 'Date of Birth',
+  gender: 'Gender',
+  genderPreferNotToSay: 'Prefer not to say',
+  genderMale: 'Male',
+  genderFemale: 'Female',
+  genderOther: 'Other',
+  medicalInformation: 'Medical Information',
+  doctorName: 'Doctor Name',
+  doctorNamePlaceholder: 'Enter doctor name',
+  doctorSpecialty: 'Doctor Specialty',
+  doctorSpecialtyPlaceholder: 'Enter doctor specialty',
+  location: 'Location',
+  locationPlaceholder: 'Enter appointment location',
+  onlineAppointment: 'Online Appointment',
+  meetingLink: 'Meeting Link',
+  meetingPassword: 'Meeting Password',
+  meetingPasswordPlaceholder: 'Enter meeting password',
+  additionalInformation: 'Additional Information',
+  symptoms: 'Symptoms',
+  symptomsPlaceholder: 'Enter symptoms separated by commas',
+  diagnosis: 'Diagnosis',
+  diagnosisPlaceholder: 'Enter diagnosis',
+  prescription: 'Prescription',
+  prescriptionPlaceholder: 'Enter prescriptions separated by commas',
+  notes: 'Notes',
+  notesPlaceholder: 'Enter any additional notes',
+  followUpRequired: 'Follow-up Required',
+  followUpDate: 'Follow-up Date',
+  insuranceProvider: 'Insurance Provider',
+  insuranceNumber: 'Insurance Number',
+  copay: 'Copay',
+  repeats: 'Repeats',
+  repeatNone: 'Does not repeat',
+  repeatDaily: 'Daily',
+  repeatWeekly: 'Weekly',
+  repeatBiweekly: 'Every 2 weeks',
+  repeatMonthly: 'Monthly',
+  repeatCustom: 'Custom ({rule})',
+  occurrenceCount: 'Number of occurrences',
+  occurrenceCountPlaceholder: 'Leave empty to repeat indefinitely',
+  moderation: 'Moderation',
+  moderationNotes: 'Moderation Notes',
+  moderationNotesPlaceholder: 'Add notes about status changes or moderation decisions',
+  cancel: 'Cancel',
+  createAppointment: 'Create Appointment',
+  updateAppointment: 'Update Appointment',
+  creating: 'Creating...',
+  updating: 'Updating...',
+
+  // Scheduling conflicts
+  conflictProvider: 'The provider is already booked for "{title}" ({time})',
+  conflictPatient: 'The patient is already booked for "{title}" ({time})',
+  conflictLocation: 'The location is already in use by "{title}" ({time})',
+  conflictsBlocking: 'Resolve the scheduling conflicts before saving',
+  providerUnavailable: 'The doctor is not working at this time',
+  providerOff: 'Unavailable',
+  clinicClosed: 'The clinic is closed at this time ({label})',
+  closureOverlapsAppointments: '"{label}" overlaps {appointments}',
+  dismiss: 'Dismiss',
+
+  // Available slots
+  findAvailableSlots: 'Find available times',
+  noAvailableSlots: 'No available times in the next {days} days',
+
+  // Waiting room
+  waitingRoom: 'Waiting room',
+  arrivalExpected: 'Expected',
+  arrivalCheckedIn: 'Checked in',
+  arrivalInRoom: 'In room',
+  arrivalDone: 'Done',
+  checkIn: 'Check in',
+  takeToRoom: 'Take to room',
+  assignRoom: 'Assign room…',
+  roomName: 'Room {room}',
+  waitingFor: 'Waiting {minutes} min',
+  inRoomFor: 'In room {minutes} min',
+  noPatients: 'No patients',
+
+  // Moderation queue
+  moderationQueue: 'Moderation queue',
+  noPendingRequests: 'No requests waiting for review',
+  searchRequests: 'Search by title, patient or doctor',
+  allPriorities: 'All priorities',
+  allTypes: 'All types',
+  allDoctors: 'All doctors',
+  sortBy: 'Sort by',
+  sortByStartTime: 'Appointment time',
+  sortByCreatedAt: 'Request date',
+  sortByPriority: 'Priority',
+  requestedAt: 'Requested {date}',
+  selectAll: 'Select all',
+  approve: 'Approve',
+  reject: 'Reject',
+  reschedule: 'Reschedule',
+  approveSelected: 'Approve selected ({count})',
+  newStartTime: 'New start time',
+  confirm: 'Confirm',
+
+  // Audit trail
+  appointmentHistory: 'History',
+  noChangesRecorded: 'No changes recorded',
+  changeSourceForm: 'edited',
+  changeSourceDrag: 'moved in the calendar',
+  changeSourceResize: 'resized in the calendar',
+  unknownActor: 'Someone',
+  changeReason: 'Reason for change',
+  changeReasonPlaceholder: 'Why is this appointment being changed?',
+  reasonLabel: 'Reason:',
+  hiddenValue: 'Hidden',
+  emptyValue: 'None',
+  yes: 'Yes',
+  no: 'No',
+
+  // CSV import and export
+  importAppointments: 'Import appointments',
+  chooseCsvFile: 'Choose a CSV file',
+  columnMapping: 'Columns',
+  ignoreColumn: 'Do not import',
+  importPreview: 'Preview',
+  rowNumber: 'Row',
+  rowAccepted: 'Accepted',
+  rowRejected: 'Rejected',
+  importSummary: '{accepted} accepted, {rejected} rejected',
+  importAcceptedRows: 'Import accepted rows ({count})',
+  noRowsToImport: 'The file has no rows to import',
+  exportCsv: 'Export CSV',
+
+  // Validation errors
+  titleRequired: 'Title is required',
+  startTimeRequired: 'Start time is required',
+  endTimeRequired: 'End time is required',
+  endTimeAfterStart: 'End time must be after start time',
+  invalidEmail: 'Please enter a valid email address',
+  invalidPhone: 'Please enter a valid phone number',
+  meetingLinkRequired: 'Meeting link is required for online appointments',
+  moderationNotesRequired: 'Add notes explaining the decision',
+  invalidValue: 'Unknown value "{value}"',
+  invalidDate: 'Please enter a valid date',
+  invalidNumber: 'Please enter a valid number',
+};
+
+/**
+ * Spanish UI text
+ */
+export const esMessages: CalendarMessages = {
+  // Calendar navigation and views
+  today: 'Hoy',
+  previous: 'Anterior',
+  next: 'Siguiente',
+  viewMonth: 'Mes',
+  viewWeek: 'Semana',
+  viewWorkWeek: 'Semana laboral',
+  viewDay: 'Día',
+  viewAgenda: 'Agenda',
+  viewResource: 'Recursos',
+  appointmentCountOne: '{count} cita',
+  appointmentCountOther: '{count} citas',
+  moreAppointments: '+{count} más',
+  noAppointmentsForDay: 'No hay citas programadas para este día',
+  noAppointmentsForPeriod: 'No se encontraron citas para el período seleccionado',
+  noResources: 'No hay recursos configurados',
+  loadingAppointments: 'Cargando citas...',
+  errorLoadingAppointments: 'Error al cargar las citas',
+  retry: 'Reintentar',
+
+  // Appointment details
+  joinMeeting: 'Unirse a la reunión',
+  symptomsLabel: 'Síntomas:',
+  diagnosisLabel: 'Diagnóstico:',
+  prescriptionLabel: 'Receta:',
+  followUpRequiredLabel: 'Requiere seguimiento:',
+  followUpScheduledFor: 'Programado para el {date}',
+  followUpToBeDetermined: 'Fecha por determinar',
+  notesLabel: 'Notas:',
+  recurringAppointment: 'Cita recurrente',
+  conflictingAppointment: 'Conflicto de horario',
+  busy: 'Ocupado',
+  downloadIcs: 'Descargar .ics',
+
+  // Recurring appointment edits
+  editRecurringTitle: 'Editar cita recurrente',
+  applyChangesTo: 'Aplicar cambios a',
+  editScopeThis: 'Esta cita',
+  editScopeFollowing: 'Esta cita y las siguientes',
+  editScopeAll: 'Todas las citas',
+
+  // Appointment form
+  createAppointmentTitle: 'Crear nueva cita',
+  editAppointmentTitle: 'Editar cita',
+  title: 'Título',
+  titlePlaceholder: 'Ingrese el título de la cita',
+  description: 'Descripción',
+  descriptionPlaceholder: 'Ingrese la descripción de la cita',
+  startTime: 'Hora de inicio',
+  endTime: 'Hora de fin',
+  presetThirtyMinutes: '30 minutos',
+  presetOneHour: '1 hora',
+  presetNinetyMinutes: '1.5 horas',
+  presetTwoHours: '2 horas',
+  status: 'Estado',
+  statusModeratorsOnly: 'Solo los moderadores pueden cambiar el estado de la cita',
+  statusTransitionNotAllowed: 'El estado no puede cambiar de {from} a {to}',
+  statusFieldsRequired: 'Complete los campos requeridos para este cambio de estado',
+  cancellationReason: 'Motivo de cancelación',
+  cancellationReasonPlaceholder: '¿Por qué se cancela la cita?',
+  requiredForStatusChange: 'Requerido para este cambio de estado',
+  priority: 'Prioridad',
+  appointmentType: 'Tipo de cita',
+  patientInformation: 'Información del paciente',
+  patientName: 'Nombre del paciente',
+  patientNamePlaceholder: 'Ingrese el nombre del paciente',
+  patientEmail: 'Correo del paciente',
+  patientEmailPlaceholder: 'Ingrese el correo del paciente',
+  patientPhone: 'Teléfono del paciente',
+  patientPhonePlaceholder: 'Ingrese el teléfono del paciente',
+  dateOfBirth: 'Fecha de nacimiento',
+  gender: 'Género',
+  genderPreferNotToSay: 'Prefiero no decirlo',
+  genderMale: 'Masculino',
+  genderFemale: 'Femenino',
+  genderOther: 'Otro',
+  medicalInformation: 'Información médica',
+  doctorName: 'Nombre del médico',
+  doctorNamePlaceholder: 'Ingrese el nombre del médico',
+  doctorSpecialty: 'Especialidad del médico',
+  doctorSpecialtyPlaceholder: 'Ingrese la especialidad del médico',
+  location: 'Ubicación',
+  locationPlaceholder: 'Ingrese la ubicación de la cita',
+  onlineAppointment: 'Cita en línea',
+  meetingLink: 'Enlace de la reunión',
+  meetingPassword: 'Contraseña de la reunión',
+  meetingPasswordPlaceholder: 'Ingrese la contraseña de la reunión',
+  additionalInformation: 'Información adicional',
+  symptoms: 'Síntomas',
+  symptomsPlaceholder: 'Ingrese los síntomas separados por comas',
+  diagnosis: 'Diagnóstico',
+  diagnosisPlaceholder: 'Ingrese el diagnóstico',
+  prescription: 'Receta',
+  prescriptionPlaceholder: 'Ingrese las recetas separadas por comas',
+  notes: 'Notas',
+  notesPlaceholder: 'Ingrese notas adicionales',
+  followUpRequired: 'Requiere seguimiento',
+  followUpDate: 'Fecha de seguimiento',
+  insuranceProvider: 'Aseguradora',
+  insuranceNumber: 'Número de póliza',
+  copay: 'Copago',
+  repeats: 'Se repite',
+  repeatNone: 'No se repite',
+  repeatDaily: 'Diariamente',
+  repeatWeekly: 'Semanalmente',
+  repeatBiweekly: 'Cada 2 semanas',
+  repeatMonthly: 'Mensualmente',
+  repeatCustom: 'Personalizado ({rule})',
+  occurrenceCount: 'Número de repeticiones',
+  occurrenceCountPlaceholder: 'Deje vacío para repetir indefinidamente',
+  moderation: 'Moderación',
+  moderationNotes: 'Notas de moderación',
+  moderationNotesPlaceholder: 'Agregue notas sobre cambios de estado o decisiones de moderación',
+  cancel: 'Cancelar',
+  createAppointment: 'Crear cita',
+  updateAppointment: 'Actualizar cita',
+  creating: 'Creando...',
+  updating: 'Actualizando...',
+
+  // Scheduling conflicts
+  conflictProvider: 'El médico ya tiene la cita "{title}" ({time})',
+  conflictPatient: 'El paciente ya tiene la cita "{title}" ({time})',
+  conflictLocation: 'La ubicación ya está ocupada por "{title}" ({time})',
+  conflictsBlocking: 'Resuelva los conflictos de horario antes de guardar',
+  providerUnavailable: 'El médico no trabaja en este horario',
+  providerOff: 'No disponible',
+  clinicClosed: 'La clínica está cerrada en este horario ({label})',
+  closureOverlapsAppointments: '"{label}" coincide con {appointments}',
+  dismiss: 'Descartar',
+
+  // Available slots
+  findAvailableSlots: 'Buscar horarios disponibles',
+  noAvailableSlots: 'No hay horarios disponibles en los próximos {days} días',
+
+  // Waiting room
+  waitingRoom: 'Sala de espera',
+  arrivalExpected: 'Esperados',
+  arrivalCheckedIn: 'Registrados',
+  arrivalInRoom: 'En consulta',
+  arrivalDone: 'Atendidos',
+  checkIn: 'Registrar llegada',
+  takeToRoom: 'Pasar a consulta',
+  assignRoom: 'Asignar consultorio…',
+  roomName: 'Consultorio {room}',
+  waitingFor: 'Esperando {minutes} min',
+  inRoomFor: 'En consulta {minutes} min',
+  noPatients: 'Sin pacientes',
+
+  // Moderation queue
+  moderationQueue: 'Cola de moderación',
+  noPendingRequests: 'No hay solicitudes pendientes de revisión',
+  searchRequests: 'Buscar por título, paciente o médico',
+  allPriorities: 'Todas las prioridades',
+  allTypes: 'Todos los tipos',
+  allDoctors: 'Todos los médicos',
+  sortBy: 'Ordenar por',
+  sortByStartTime: 'Hora de la cita',
+  sortByCreatedAt: 'Fecha de solicitud',
+  sortByPriority: 'Prioridad',
+  requestedAt: 'Solicitada el {date}',
+  selectAll: 'Seleccionar todo',
+  approve: 'Aprobar',
+  reject: 'Rechazar',
+  reschedule: 'Reprogramar',
+  approveSelected: 'Aprobar seleccionadas ({count})',
+  newStartTime: 'Nueva hora de inicio',
+  confirm: 'Confirmar',
+
+  // Audit trail
+  appointmentHistory: 'Historial',
+  noChangesRecorded: 'No hay cambios registrados',
+  changeSourceForm: 'editó',
+  changeSourceDrag: 'movió en el calendario',
+  changeSourceResize: 'cambió la duración en el calendario',
+  unknownActor: 'Alguien',
+  changeReason: 'Motivo del cambio',
+  changeReasonPlaceholder: '¿Por qué se cambia esta cita?',
+  reasonLabel: 'Motivo:',
+  hiddenValue: 'Oculto',
+  emptyValue: 'Ninguno',
+  yes: 'Sí',
+  no: 'No',
+
+  // CSV import and export
+  importAppointments: 'Importar citas',
+  chooseCsvFile: 'Elija un archivo CSV',
+  columnMapping: 'Columnas',
+  ignoreColumn: 'No importar',
+  importPreview: 'Vista previa',
+  rowNumber: 'Fila',
+  rowAccepted: 'Aceptada',
+  rowRejected: 'Rechazada',
+  importSummary: '{accepted} aceptadas, {rejected} rechazadas',
+  importAcceptedRows: 'Importar filas aceptadas ({count})',
+  noRowsToImport: 'El archivo no tiene filas para importar',
+  exportCsv: 'Exportar CSV',
+
+  // Validation errors
+  titleRequired: 'El título es obligatorio',
+  startTimeRequired: 'La hora de inicio es obligatoria',
+  endTimeRequired: 'La hora de fin es obligatoria',
+  endTimeAfterStart: 'La hora de fin debe ser posterior a la hora de inicio',
+  invalidEmail: 'Ingrese un correo electrónico válido',
+  invalidPhone: 'Ingrese un número de teléfono válido',
+  meetingLinkRequired: 'El enlace de la reunión es obligatorio para citas en línea',
+  moderationNotesRequired: 'Agregue notas que expliquen la decisión',
+  invalidValue: 'Valor desconocido "{value}"',
+  invalidDate: 'Ingrese una fecha válida',
+  invalidNumber: 'Ingrese un número válido',
+};
+
+/**
+ * Bundled messages by language code
+ */
+export const bundledMessages: Record<string, CalendarMessages> = {
+  en: enMessages,
+  es: esMessages,
+};
+
+/**
+ * Resolve the UI text for a date-fns locale, with optional overrides
+ * Falls back to English for languages that are not bundled
+ */
+export const getMessages = (
+  locale?: Locale,
+  overrides?: Partial<CalendarMessages>
+): CalendarMessages => {
+  const language = locale?.code?.split('-')[0] || 'en';
+  return {
+    ...(bundledMessages[language] || enMessages),
+    ...overrides,
+  };
+};
+
+/**
+ * Fill {name} placeholders in a message template
+ */
+export const formatMessage = (template: string, values: Record<string, string | number> = {}) => {
+  return template.replace(/\{(\w+)\}/g, (match, key) =>
+    values[key] !== undefined ? String(values[key]) : match
+  );
+};
+
+/**
+ * Pick the singular or plural appointment count message
+ */
+export const formatAppointmentCount = (messages: CalendarMessages, count: number) => {
+  return formatMessage(count === 1 ? messages.appointmentCountOne : messages.appointmentCountOther, { count });
+};
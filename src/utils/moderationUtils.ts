@@ -0,0 +1,107 @@
+import {
+  Appointment,
+  AppointmentPriority,
+  AppointmentStatus,
+  ModerationDecision,
+  ModerationQueueFilters,
+  ModerationQueueSort
+} from '../types';
+import { parseISODate } from './dateUtils';
+import { moveAppointment } from './appointmentUtils';
+
+/**
+ * Utility functions for reviewing appointment requests
+ */
+
+// Most pressing first; custom priorities sort after these
+const PRIORITY_RANK: string[] = [
+  AppointmentPriority.EMERGENCY,
+  AppointmentPriority.URGENT,
+  AppointmentPriority.FOLLOW_UP,
+  AppointmentPriority.ROUTINE,
+];
+
+const DECISION_STATUS: Record<ModerationDecision, AppointmentStatus> = {
+  [ModerationDecision.APPROVE]: AppointmentStatus.CONFIRMED,
+  [ModerationDecision.REJECT]: AppointmentStatus.CANCELLED,
+  [ModerationDecision.RESCHEDULE]: AppointmentStatus.RESCHEDULED,
+};
+
+/**
+ * Get the appointments waiting for review (`isModerated` is false)
+ */
+export const getPendingModeration = (appointments: Appointment[]) => {
+  return appointments.filter(apt => apt.isModerated === false);
+};
+
+/**
+ * Filter a moderation queue by text, priority, type and doctor
+ */
+export const filterModerationQueue = (appointments: Appointment[], filters: ModerationQueueFilters) => {
+  const search = filters.search?.trim().toLowerCase();
+
+  return appointments.filter(apt =>
+    (!search || [apt.title, apt.patientName, apt.doctorName].some(text => text?.toLowerCase().includes(search))) &&
+    (!filters.priority || apt.priority === filters.priority) &&
+    (!filters.type || apt.type === filters.type) &&
+    (!filters.doctorId || apt.doctorId === filters.doctorId)
+  );
+};
+
+/**
+ * Sort a moderation queue
+ * Ties, and appointments without the sort field, fall back to start time.
+ */
+export const sortModerationQueue = (appointments: Appointment[], sortBy: ModerationQueueSort = 'startTime') => {
+  const time = (value?: string) => (value && parseISODate(value)?.getTime()) || 0;
+  const rank = (priority: string) => {
+    const index = PRIORITY_RANK.indexOf(priority);
+    return index === -1 ? PRIORITY_RANK.length : index;
+  };
+
+  return [...appointments].sort((a, b) => {
+    let difference = 0;
+    if (sortBy === 'createdAt') difference = time(a.createdAt) - time(b.createdAt);
+    if (sortBy === 'priority') difference = rank(a.priority) - rank(b.priority);
+    return difference || time(a.startTime) - time(b.startTime);
+  });
+};
+
+/**
+ * Get the status an appointment takes after a moderation decision
+ */
+export const getModerationStatus = (decision: ModerationDecision): AppointmentStatus => {
+  return DECISION_STATUS[decision];
+};
+
+/**
+ * Apply a moderation decision to an appointment
+ * Sets the status for the decision and stamps isModerated, moderatedBy,
+ * moderatedAt and moderationNotes. Rejected appointments take the notes as
+ * their cancellation reason unless they already have one; rescheduled ones move
+ * to `newStart`, keeping their duration.
+ */
+export const moderateAppointment = (
+  appointment: Appointment,
+  decision: ModerationDecision,
+  options: { notes: string; moderatorId?: string; newStart?: Date; now?: Date }
+): Appointment => {
+  const { notes, moderatorId, newStart, now = new Date() } = options;
+  const moved = decision === ModerationDecision.RESCHEDULE && newStart
+    ? moveAppointment(appointment, newStart)
+    : appointment;
+
+  const moderated: Appointment = {
+    ...moved,
+    status: getModerationStatus(decision),
+    isModerated: true,
+    moderatedBy: moderatorId,
+    moderatedAt: now.toISOString(),
+    moderationNotes: notes,
+    updatedAt: now.toISOString(),
+  };
+  if (decision === ModerationDecision.REJECT && !moderated.cancellationReason) {
+    moderated.cancellationReason = notes;
+  }
+  return moderated;
+};
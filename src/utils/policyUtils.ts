@@ -0,0 +1,203 @@
+import {
+  Appointment,
+  AppointmentAction,
+  AppointmentField,
+  PolicyCondition,
+  PolicyRule,
+  PolicyUser,
+  UserRole
+} from '../types';
+
+/**
+ * Utility functions for role-based access to appointments
+ * A policy is a list of rules. An action is allowed when an allow rule matches
+ * and no deny rule does; anything not allowed is denied.
+ */
+
+// Clinical fields that moderators may neither see nor edit
+export const CLINICAL_FIELDS: AppointmentField[] = [
+  'symptoms',
+  'diagnosis',
+  'prescription',
+  'notes',
+  'followUpRequired',
+  'followUpDate',
+];
+
+/**
+ * Default access policy
+ * - Admins can do anything.
+ * - Moderators manage all appointments but cannot see or edit clinical fields.
+ * - Doctors see every appointment and manage the ones assigned to them.
+ * - Patients can request appointments, and view and cancel their own. Other
+ *   patients' appointments are shown to them as busy time.
+ */
+export const defaultPolicy: PolicyRule[] = [
+  { roles: [UserRole.ADMIN], actions: ['*'] },
+  {
+    roles: [UserRole.MODERATOR],
+    actions: [
+      AppointmentAction.VIEW,
+      AppointmentAction.CREATE,
+      AppointmentAction.EDIT,
+      AppointmentAction.MOVE,
+      AppointmentAction.CANCEL,
+      AppointmentAction.CHANGE_STATUS,
+      AppointmentAction.MODERATE,
+    ],
+  },
+  {
+    effect: 'deny',
+    roles: [UserRole.MODERATOR],
+    actions: [AppointmentAction.VIEW, AppointmentAction.EDIT],
+    fields: CLINICAL_FIELDS,
+  },
+  { roles: [UserRole.DOCTOR], actions: [AppointmentAction.VIEW, AppointmentAction.CREATE] },
+  {
+    roles: [UserRole.DOCTOR],
+    actions: [
+      AppointmentAction.EDIT,
+      AppointmentAction.MOVE,
+      AppointmentAction.CANCEL,
+      AppointmentAction.CHANGE_STATUS,
+    ],
+    condition: 'assignedProvider',
+  },
+  { roles: [UserRole.PATIENT], actions: [AppointmentAction.CREATE] },
+  {
+    roles: [UserRole.PATIENT],
+    actions: [AppointmentAction.VIEW, AppointmentAction.CANCEL],
+    condition: 'ownAppointment',
+  },
+];
+
+/**
+ * Check whether an appointment belongs to the user as a patient
+ */
+export const isOwnAppointment = (user: PolicyUser, appointment: Partial<Appointment>) => {
+  return (
+    (!!user.patientId && appointment.patientId === user.patientId) ||
+    (!!user.userId && appointment.createdBy === user.userId)
+  );
+};
+
+/**
+ * Check whether the user is the appointment's doctor
+ */
+export const isAssignedProvider = (user: PolicyUser, appointment: Partial<Appointment>) => {
+  return !!user.doctorId && appointment.doctorId === user.doctorId;
+};
+
+const meetsCondition = (condition: PolicyCondition, user: PolicyUser, appointment?: Partial<Appointment>) => {
+  if (!appointment) return false;
+  if (condition === 'ownAppointment') return isOwnAppointment(user, appointment);
+  if (condition === 'assignedProvider') return isAssignedProvider(user, appointment);
+  return condition(user, appointment);
+};
+
+const ruleMatches = (
+  rule: PolicyRule,
+  user: PolicyUser,
+  action: AppointmentAction,
+  appointment?: Partial<Appointment>,
+  field?: AppointmentField
+) => {
+  if (!rule.roles.includes('*') && !rule.roles.includes(user.role)) return false;
+  if (!rule.actions.includes('*') && !rule.actions.includes(action)) return false;
+  if (rule.fields) {
+    // Field-limited allow rules grant the action in general; deny rules need the field
+    if (field ? !rule.fields.includes(field) : rule.effect === 'deny') return false;
+  }
+  return !rule.condition || meetsCondition(rule.condition, user, appointment);
+};
+
+/**
+ * Check whether a user can perform an action, optionally on an appointment or one of its fields
+ * Rules with a condition only match when the appointment is given.
+ */
+export const can = (
+  user: PolicyUser,
+  action: AppointmentAction,
+  appointment?: Partial<Appointment>,
+  options: { field?: AppointmentField; policy?: PolicyRule[] } = {}
+) => {
+  const { field, policy = defaultPolicy } = options;
+  const matching = policy.filter(rule => ruleMatches(rule, user, action, appointment, field));
+
+  return (
+    matching.some(rule => rule.effect !== 'deny') &&
+    !matching.some(rule => rule.effect === 'deny')
+  );
+};
+
+/**
+ * Create a permission check for the current user
+ * Without a user there is no access control and every action is allowed.
+ */
+export const createPermissionCheck = (user: PolicyUser | undefined, policy: PolicyRule[] = defaultPolicy) => {
+  return (action: AppointmentAction, appointment?: Partial<Appointment>, field?: AppointmentField) => {
+    return !user || can(user, action, appointment, { field, policy });
+  };
+};
+
+// Fields kept on busy blocks: enough to place the appointment, nothing about the visit
+const BUSY_BLOCK_FIELDS: (keyof Appointment)[] = [
+  'id',
+  'startTime',
+  'endTime',
+  'status',
+  'priority',
+  'type',
+  'doctorId',
+  'doctorName',
+  'recurrence',
+  'recurringAppointmentId',
+  'originalStartTime',
+  'createdAt',
+  'updatedAt',
+];
+
+/**
+ * Remove what a user may not see from an appointment
+ * Fields the user cannot VIEW are left out. Appointments the user cannot view
+ * at all become busy blocks that only keep their times and provider. Without a
+ * user the appointment is returned unchanged.
+ */
+export const maskAppointment = (
+  appointment: Appointment,
+  user: PolicyUser | undefined,
+  options: { policy?: PolicyRule[]; busyTitle?: string } = {}
+): Appointment => {
+  const { policy = defaultPolicy, busyTitle = 'Busy' } = options;
+  if (!user) return appointment;
+
+  if (!can(user, AppointmentAction.VIEW, appointment, { policy })) {
+    const busyBlock = { title: busyTitle, isBusy: true } as Appointment;
+    BUSY_BLOCK_FIELDS.forEach(field => {
+      if (appointment[field] !== undefined) {
+        (busyBlock as unknown as Record<string, unknown>)[field] = appointment[field];
+      }
+    });
+    return busyBlock;
+  }
+
+  const masked = { ...appointment };
+  (Object.keys(appointment) as (keyof Appointment)[]).forEach(field => {
+    if (!can(user, AppointmentAction.VIEW, appointment, { field, policy })) {
+      delete masked[field];
+    }
+  });
+  return masked;
+};
+
+/**
+ * Mask a list of appointments for a user (see maskAppointment)
+ */
+export const maskAppointments = (
+  appointments: Appointment[],
+  user: PolicyUser | undefined,
+  options: { policy?: PolicyRule[]; busyTitle?: string } = {}
+) => {
+  if (!user) return appointments;
+  return appointments.map(appointment => maskAppointment(appointment, user, options));
+};
@@ -0,0 +1,443 @@
+import { addDays, addMonths, addWeeks, getDaysInMonth, startOfMonth, startOfWeek } from 'date-fns';
+import {
+  Appointment,
+  AppointmentRecurrence,
+  RecurrenceEditResult,
+  RecurrenceEditScope,
+  RecurrenceRule
+} from '../types';
+import { parseISODate, toZonedDate, fromZonedDate } from './dateUtils';
+
+/**
+ * Utility functions for recurring appointments
+ * Supports the RRULE parts FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+ * COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH and WKST. Occurrences are generated
+ * in wall-clock time of the given zone, so a 09:00 visit stays at 09:00 across
+ * daylight saving changes.
+ */
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceRule['freq'][] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on generated periods, for rules that never match a date
+const MAX_RECURRENCE_PERIODS = 10000;
+
+const parseNumberList = (value?: string) => {
+  if (!value) return undefined;
+  const numbers = value.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0);
+  return numbers.length > 0 ? numbers : undefined;
+};
+
+// UNTIL is either a UTC date-time (trailing Z) or a date / floating date-time
+// read as wall-clock time in the series' zone
+const parseUntil = (value: string, timeZone: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59', utc] = match;
+  const wallClock = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+  return utc ? new Date(`${wallClock}Z`) : fromZonedDate(wallClock, timeZone);
+};
+
+const formatUntil = (date: Date) => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Parse an RFC 5545 RRULE string
+ * Returns null when FREQ is missing or unsupported.
+ */
+export const parseRRule = (rrule: string, timeZone: string = 'UTC'): RecurrenceRule | null => {
+  const values: Record<string, string> = {};
+  rrule.trim().replace(/^RRULE:/i, '').split(';').forEach(part => {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      values[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+  });
+
+  const freq = values.FREQ as RecurrenceRule['freq'];
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const interval = parseInt(values.INTERVAL, 10);
+  const count = parseInt(values.COUNT, 10);
+  const weekStart = WEEKDAY_CODES.indexOf(values.WKST);
+
+  const byDay = values.BYDAY?.split(',').reduce<NonNullable<RecurrenceRule['byDay']>>((days, code) => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+    if (match) {
+      days.push({
+        weekday: WEEKDAY_CODES.indexOf(match[2]),
+        ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+      });
+    }
+    return days;
+  }, []);
+
+  return {
+    freq,
+    interval: interval > 0 ? interval : 1,
+    count: count > 0 ? count : undefined,
+    until: values.UNTIL ? parseUntil(values.UNTIL, timeZone) : undefined,
+    byDay: byDay && byDay.length > 0 ? byDay : undefined,
+    byMonthDay: parseNumberList(values.BYMONTHDAY),
+    byMonth: parseNumberList(values.BYMONTH),
+    weekStart: weekStart >= 0 ? weekStart : 1,
+  };
+};
+
+/**
+ * Format a parsed rule back into an RRULE string
+ */
+export const formatRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+
+  return parts.join(';');
+};
+
+// Copy the time of day of `time` onto `date`
+const withTimeOf = (date: Date, time: Date) => {
+  const result = new Date(date);
+  result.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return result;
+};
+
+// Days of a month matching BYMONTHDAY or BYDAY, or the series' own day of month
+const getMatchingMonthDates = (rule: RecurrenceRule, monthStart: Date, defaultDay: number) => {
+  const daysInMonth = getDaysInMonth(monthStart);
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map(day => (day < 0 ? daysInMonth + day + 1 : day));
+  } else if (rule.byDay) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const matching: number[] = [];
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (addDays(monthStart, day - 1).getDay() === weekday) matching.push(day);
+      }
+      if (!ordinal) return matching;
+
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      return day ? [day] : [];
+    });
+  } else {
+    days = [defaultDay];
+  }
+
+  return Array.from(new Set(days))
+    .filter(day => day >= 1 && day <= daysInMonth)
+    .sort((a, b) => a - b)
+    .map(day => addDays(monthStart, day - 1));
+};
+
+// Candidate dates for the n-th period (day, week, month or year) of the rule
+const getPeriodDates = (rule: RecurrenceRule, dtstart: Date, period: number): Date[] => {
+  const step = period * rule.interval;
+  let dates: Date[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      dates = [addDays(dtstart, step)];
+      break;
+    case 'WEEKLY': {
+      const weekStart = addWeeks(startOfWeek(dtstart, { weekStartsOn: rule.weekStart as 0 | 1 | 2 | 3 | 4 | 5 | 6 }), step);
+      const weekdays = rule.byDay ? rule.byDay.map(day => day.weekday) : [dtstart.getDay()];
+      dates = Array.from(new Set(weekdays))
+        .map(weekday => addDays(weekStart, (weekday - rule.weekStart + 7) % 7))
+        .sort((a, b) => a.getTime() - b.getTime());
+      break;
+    }
+    case 'MONTHLY':
+      dates = getMatchingMonthDates(rule, addMonths(startOfMonth(dtstart), step), dtstart.getDate());
+      break;
+    case 'YEARLY': {
+      const months = rule.byMonth ?? [dtstart.getMonth() + 1];
+      dates = [...months].sort((a, b) => a - b).flatMap(month =>
+        getMatchingMonthDates(rule, new Date(dtstart.getFullYear() + step, month - 1, 1), dtstart.getDate())
+      );
+      break;
+    }
+  }
+
+  return dates
+    .filter(date => !rule.byMonth || rule.byMonth.includes(date.getMonth() + 1))
+    .filter(date => rule.freq !== 'DAILY' || !rule.byDay || rule.byDay.some(day => day.weekday === date.getDay()))
+    .map(date => withTimeOf(date, dtstart));
+};
+
+// Walk the occurrences of a rule in order, as zoned dates, until the callback
+// returns false or the rule's COUNT/UNTIL is reached
+const forEachOccurrence = (
+  dtstart: Date,
+  rule: RecurrenceRule,
+  timeZone: string,
+  callback: (zonedStart: Date) => boolean | void
+) => {
+  const until = rule.until && toZonedDate(rule.until, timeZone);
+  let count = 0;
+
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    for (const candidate of getPeriodDates(rule, dtstart, period)) {
+      if (candidate < dtstart) continue;
+      if (until && candidate > until) return;
+
+      count++;
+      if (callback(candidate) === false) return;
+      if (rule.count && count >= rule.count) return;
+    }
+  }
+};
+
+/**
+ * Build the occurrence of a recurring appointment that starts at `start`
+ */
+export const createOccurrence = (appointment: Appointment, start: Date, end: Date): Appointment => ({
+  ...appointment,
+  id: `${appointment.id}:${start.toISOString()}`,
+  startTime: start.toISOString(),
+  endTime: end.toISOString(),
+  recurringAppointmentId: appointment.id,
+  originalStartTime: start.toISOString(),
+});
+
+/**
+ * Expand a recurring appointment into its occurrences within a range
+ * EXDATEs are skipped. Appointments without a (valid) recurrence are returned
+ * unchanged.
+ */
+export const expandRecurrence = (
+  appointment: Appointment,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string = 'UTC'
+): Appointment[] => {
+  const rule = appointment.recurrence && parseRRule(appointment.recurrence.rrule, timeZone);
+  const start = parseISODate(appointment.startTime);
+  const end = parseISODate(appointment.endTime);
+  if (!rule || !start || !end) return [appointment];
+
+  const duration = end.getTime() - start.getTime();
+  const exdates = new Set(
+    (appointment.recurrence?.exdates || []).map(exdate => parseISODate(exdate)?.getTime())
+  );
+  // Compared in wall-clock time with a day of margin before converting each candidate
+  const zonedRangeStart = toZonedDate(rangeStart, timeZone).getTime() - DAY_MS;
+  const zonedRangeEnd = toZonedDate(rangeEnd, timeZone).getTime() + DAY_MS;
+  const occurrences: Appointment[] = [];
+
+  forEachOccurrence(toZonedDate(start, timeZone), rule, timeZone, (zonedStart) => {
+    if (zonedStart.getTime() > zonedRangeEnd) return false;
+    if (zonedStart.getTime() + duration < zonedRangeStart) return;
+
+    const occurrenceStart = fromZonedDate(zonedStart, timeZone);
+    const occurrenceEnd = new Date(occurrenceStart.getTime() + duration);
+
+    if (exdates.has(occurrenceStart.getTime())) return;
+    if (occurrenceStart > rangeEnd || occurrenceEnd < rangeStart) return;
+
+    occurrences.push(createOccurrence(appointment, occurrenceStart, occurrenceEnd));
+  });
+
+  return occurrences;
+};
+
+/**
+ * Expand every recurring appointment in a list into its occurrences within a range
+ * Occurrences that were already expanded are kept as they are.
+ */
+export const expandRecurringAppointments = (
+  appointments: Appointment[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string = 'UTC'
+) => {
+  return appointments.flatMap(apt =>
+    apt.recurrence && !apt.recurringAppointmentId
+      ? expandRecurrence(apt, rangeStart, rangeEnd, timeZone)
+      : [apt]
+  );
+};
+
+/**
+ * Skip a single occurrence of a recurring appointment by adding an EXDATE
+ */
+export const excludeOccurrence = (series: Appointment, occurrenceStart: string): Appointment => {
+  const recurrence = series.recurrence;
+  const start = parseISODate(occurrenceStart);
+  if (!recurrence || !start) return series;
+
+  return {
+    ...series,
+    recurrence: {
+      ...recurrence,
+      exdates: [...(recurrence.exdates || []), start.toISOString()],
+    },
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * End a recurring appointment just before one of its occurrences
+ * Any COUNT is replaced by an UNTIL date, and later EXDATEs are dropped.
+ */
+export const endRecurrenceBefore = (
+  series: Appointment,
+  occurrenceStart: string,
+  timeZone: string = 'UTC'
+): Appointment => {
+  const recurrence = series.recurrence;
+  const rule = recurrence && parseRRule(recurrence.rrule, timeZone);
+  const start = parseISODate(occurrenceStart);
+  if (!recurrence || !rule || !start) return series;
+
+  return {
+    ...series,
+    recurrence: {
+      rrule: formatRRule({ ...rule, count: undefined, until: new Date(start.getTime() - 1000) }),
+      exdates: recurrence.exdates?.filter(exdate => (parseISODate(exdate)?.getTime() ?? 0) < start.getTime()),
+    },
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+// Number of occurrences the rule generates before `before`, EXDATEs included
+const countOccurrencesBefore = (series: Appointment, rule: RecurrenceRule, before: Date, timeZone: string) => {
+  const start = parseISODate(series.startTime);
+  if (!start) return 0;
+
+  const zonedBefore = toZonedDate(before, timeZone);
+  let count = 0;
+  forEachOccurrence(toZonedDate(start, timeZone), { ...rule, until: undefined }, timeZone, (zonedStart) => {
+    if (zonedStart >= zonedBefore) return false;
+    count++;
+  });
+  return count;
+};
+
+// Appointment fields without the occurrence bookkeeping set by createOccurrence
+const withoutOccurrenceFields = (appointment: Appointment): Appointment => {
+  const fields = { ...appointment };
+  delete fields.recurringAppointmentId;
+  delete fields.originalStartTime;
+  return fields;
+};
+
+const shiftDate = (isoString: string, offset: number) => {
+  const date = parseISODate(isoString);
+  return date ? new Date(date.getTime() + offset).toISOString() : isoString;
+};
+
+/**
+ * Apply an edit made to one occurrence of a recurring appointment
+ * - THIS: the series skips the occurrence and the edit becomes a standalone appointment
+ * - FOLLOWING: the series ends before the occurrence and a new series starts from the edit
+ * - ALL: the edit is applied to the series, shifting its start by the same amount
+ * `occurrence` is the occurrence as generated and `updated` the edited copy of it.
+ */
+export const updateRecurringAppointment = (
+  series: Appointment,
+  occurrence: Appointment,
+  updated: Appointment,
+  scope: RecurrenceEditScope,
+  timeZone: string = 'UTC'
+): RecurrenceEditResult => {
+  const now = new Date().toISOString();
+  const occurrenceStart = parseISODate(occurrence.originalStartTime || occurrence.startTime);
+  const seriesStart = parseISODate(series.startTime);
+  const updatedStart = parseISODate(updated.startTime);
+  const updatedEnd = parseISODate(updated.endTime);
+
+  if (!occurrenceStart || !seriesStart || !updatedStart || !updatedEnd) {
+    return { updated: [], created: [] };
+  }
+
+  const offset = updatedStart.getTime() - occurrenceStart.getTime();
+  const splitId = `${series.id}-${occurrenceStart.getTime()}`;
+
+  if (scope === RecurrenceEditScope.THIS) {
+    const standalone: Appointment = {
+      ...withoutOccurrenceFields(updated),
+      id: splitId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    delete standalone.recurrence;
+
+    return {
+      updated: [excludeOccurrence(series, occurrenceStart.toISOString())],
+      created: [standalone],
+    };
+  }
+
+  const exdates = series.recurrence?.exdates || [];
+
+  if (scope === RecurrenceEditScope.FOLLOWING && occurrenceStart > seriesStart) {
+    const seriesRule = series.recurrence && parseRRule(series.recurrence.rrule, timeZone);
+    let recurrence: AppointmentRecurrence | undefined;
+
+    if (updated.recurrence) {
+      let rrule = updated.recurrence.rrule;
+
+      // An unchanged COUNT rule keeps only the occurrences the original series had left
+      if (seriesRule?.count && rrule === series.recurrence?.rrule) {
+        const remaining = seriesRule.count - countOccurrencesBefore(series, seriesRule, occurrenceStart, timeZone);
+        rrule = formatRRule({ ...seriesRule, count: Math.max(remaining, 1) });
+      }
+
+      recurrence = {
+        rrule,
+        exdates: exdates
+          .filter(exdate => (parseISODate(exdate)?.getTime() ?? 0) >= occurrenceStart.getTime())
+          .map(exdate => shiftDate(exdate, offset)),
+      };
+    }
+
+    const following: Appointment = {
+      ...withoutOccurrenceFields(updated),
+      id: splitId,
+      recurrence,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (!recurrence) delete following.recurrence;
+
+    return {
+      updated: [endRecurrenceBefore(series, occurrenceStart.toISOString(), timeZone)],
+      created: [following],
+    };
+  }
+
+  // ALL, or FOLLOWING from the first occurrence
+  const newStart = new Date(seriesStart.getTime() + offset);
+  const newEnd = new Date(newStart.getTime() + (updatedEnd.getTime() - updatedStart.getTime()));
+  const allOccurrences: Appointment = {
+    ...withoutOccurrenceFields(updated),
+    id: series.id,
+    startTime: newStart.toISOString(),
+    endTime: newEnd.toISOString(),
+    createdAt: series.createdAt,
+    updatedAt: now,
+  };
+
+  if (updated.recurrence) {
+    allOccurrences.recurrence = {
+      rrule: updated.recurrence.rrule,
+      exdates: exdates.map(exdate => shiftDate(exdate, offset)),
+    };
+  } else {
+    delete allOccurrences.recurrence;
+  }
+
+  return { updated: [allOccurrences], created: [] };
+};
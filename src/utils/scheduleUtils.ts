@@ -0,0 +1,147 @@
+import { format } from 'date-fns';
+import {
+  Appointment,
+  ProviderSchedule,
+  ScheduleException,
+  ScheduleTimeRange,
+  UnavailableRange
+} from '../types';
+import {
+  getMinutesSinceStartOfDay,
+  getStartOfDay,
+  minutesToTimeString,
+  timeStringToMinutes,
+  toZonedDate
+} from './dateUtils';
+import { isSameProvider } from './conflictUtils';
+
+/**
+ * Utility functions for provider working schedules
+ * Schedule times are wall-clock times; dates passed in are zoned dates (see
+ * toZonedDate) unless a time zone is given.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Find the schedule of an appointment's provider
+ */
+export const findProviderSchedule = (
+  schedules: ProviderSchedule[],
+  provider: Pick<Appointment, 'doctorId' | 'doctorName'>
+) => {
+  return schedules.find(schedule => isSameProvider(schedule, provider));
+};
+
+/**
+ * Get the exception that applies to a date, if any
+ */
+export const getScheduleException = (schedule: ProviderSchedule, date: Date): ScheduleException | undefined => {
+  const day = format(date, 'yyyy-MM-dd');
+  return schedule.exceptions?.find(exception =>
+    day >= exception.startDate && day <= (exception.endDate || exception.startDate)
+  );
+};
+
+// Remove a range from a sorted list of ranges (all in minutes)
+const subtractRange = (ranges: { start: number; end: number }[], removed: { start: number; end: number }) => {
+  return ranges.flatMap(range => {
+    if (removed.end <= range.start || removed.start >= range.end) return [range];
+    return [
+      { start: range.start, end: removed.start },
+      { start: removed.end, end: range.end },
+    ].filter(part => part.end > part.start);
+  });
+};
+
+/**
+ * Get a provider's working hours on a date
+ * Exceptions replace the weekly shifts for their dates, and breaks are cut out
+ * of the shifts.
+ */
+export const getWorkingHoursForDate = (schedule: ProviderSchedule, date: Date): ScheduleTimeRange[] => {
+  const exception = getScheduleException(schedule, date);
+  const dayOfWeek = date.getDay();
+  const shifts = exception
+    ? exception.hours || []
+    : schedule.weeklyHours.filter(shift => shift.day === dayOfWeek);
+
+  let ranges = shifts
+    .map(shift => ({ start: timeStringToMinutes(shift.start), end: timeStringToMinutes(shift.end) }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+
+  (schedule.breaks || [])
+    .filter(scheduleBreak => !scheduleBreak.days || scheduleBreak.days.includes(dayOfWeek))
+    .forEach(scheduleBreak => {
+      ranges = subtractRange(ranges, {
+        start: timeStringToMinutes(scheduleBreak.start),
+        end: timeStringToMinutes(scheduleBreak.end),
+      });
+    });
+
+  return ranges.map(range => ({
+    start: minutesToTimeString(range.start),
+    end: minutesToTimeString(range.end),
+  }));
+};
+
+/**
+ * Get the parts of a date a provider is not working, for shading
+ * Time off and breaks carry their reason or label.
+ */
+export const getUnavailableRanges = (schedule: ProviderSchedule, date: Date): UnavailableRange[] => {
+  const exception = getScheduleException(schedule, date);
+  const dayOfWeek = date.getDay();
+  let unavailable: UnavailableRange[] = [];
+  let cursor = 0;
+
+  getWorkingHoursForDate(schedule, date).forEach(hours => {
+    const start = timeStringToMinutes(hours.start);
+    if (start > cursor) unavailable.push({ start: cursor, end: start });
+    cursor = timeStringToMinutes(hours.end);
+  });
+  if (cursor < MINUTES_PER_DAY) unavailable.push({ start: cursor, end: MINUTES_PER_DAY });
+
+  // Label the gaps left by time off or breaks
+  if (exception?.reason) {
+    unavailable = unavailable.map(range => ({ ...range, reason: exception.reason }));
+  }
+  (schedule.breaks || [])
+    .filter(scheduleBreak => scheduleBreak.label && (!scheduleBreak.days || scheduleBreak.days.includes(dayOfWeek)))
+    .forEach(scheduleBreak => {
+      const start = timeStringToMinutes(scheduleBreak.start);
+      const end = timeStringToMinutes(scheduleBreak.end);
+      unavailable = unavailable.map(range =>
+        range.start >= start && range.end <= end && !range.reason
+          ? { ...range, reason: scheduleBreak.label }
+          : range
+      );
+    });
+
+  return unavailable;
+};
+
+/**
+ * Check whether a provider is working for the whole of an appointment
+ * `start` and `end` are instants read in `timeZone`; the appointment must fit in
+ * a single stretch of working hours on one day.
+ */
+export const isProviderAvailable = (
+  schedule: ProviderSchedule,
+  start: Date,
+  end: Date,
+  timeZone: string = 'UTC'
+) => {
+  const zonedStart = toZonedDate(start, timeZone);
+  const zonedEnd = toZonedDate(end, timeZone);
+  const dayStart = getStartOfDay(zonedStart);
+  const startMinutes = getMinutesSinceStartOfDay(zonedStart);
+  const endMinutes = (zonedEnd.getTime() - dayStart.getTime()) / 60000;
+
+  if (endMinutes <= startMinutes || endMinutes > MINUTES_PER_DAY) return false;
+
+  return getWorkingHoursForDate(schedule, zonedStart).some(hours =>
+    timeStringToMinutes(hours.start) <= startMinutes && timeStringToMinutes(hours.end) >= endMinutes
+  );
+};
@@ -0,0 +1,98 @@
+import {
+  AppointmentEnumConfig,
+  AppointmentFormData,
+  StatusTransition,
+  StatusTransitionOptions,
+  defaultEnumConfig
+} from '../types';
+import { parseISODate } from './dateUtils';
+
+/**
+ * Utility functions for the appointment status workflow
+ * Transitions come from enumConfig.statusTransitions (the default workflow when
+ * no enumConfig is given); a config without them allows any status change.
+ * Keeping the same status is always allowed.
+ */
+
+const getStatusTransitions = (enumConfig: AppointmentEnumConfig | undefined) => {
+  return (enumConfig || defaultEnumConfig).statusTransitions;
+};
+
+const matchesStatus = (statuses: string[], status: string) => {
+  return statuses.includes('*') || statuses.includes(status);
+};
+
+const isFilledIn = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return value !== undefined && value !== null;
+};
+
+/**
+ * Find the first configured transition that allows a status change
+ * Role and start-time conditions are checked; required fields are not.
+ */
+export const findStatusTransition = (
+  transitions: StatusTransition[],
+  from: string,
+  to: string,
+  options: StatusTransitionOptions = {}
+): StatusTransition | undefined => {
+  const { userRole, appointment, now = new Date() } = options;
+  const start = appointment?.startTime ? parseISODate(appointment.startTime) : null;
+
+  return transitions.find(transition =>
+    matchesStatus(transition.from, from) &&
+    matchesStatus(transition.to, to) &&
+    (!transition.roles || (!!userRole && transition.roles.includes(userRole))) &&
+    (!transition.afterStart || (!!start && start <= now))
+  );
+};
+
+/**
+ * Get the fields that must be filled in to change an appointment's status
+ */
+export const getRequiredTransitionFields = (
+  enumConfig: AppointmentEnumConfig | undefined,
+  from: string,
+  to: string,
+  options: StatusTransitionOptions = {}
+): (keyof AppointmentFormData)[] => {
+  const transitions = getStatusTransitions(enumConfig);
+  if (!transitions || from === to) return [];
+  return findStatusTransition(transitions, from, to, options)?.requiredFields || [];
+};
+
+/**
+ * Check whether an appointment's status can change from one value to another
+ * When `options.appointment` is given, its required fields must also be filled in.
+ */
+export const canTransition = (
+  enumConfig: AppointmentEnumConfig | undefined,
+  from: string,
+  to: string,
+  options: StatusTransitionOptions = {}
+) => {
+  const transitions = getStatusTransitions(enumConfig);
+  if (!transitions || from === to) return true;
+
+  const transition = findStatusTransition(transitions, from, to, options);
+  if (!transition) return false;
+  if (!options.appointment) return true;
+
+  return (transition.requiredFields || []).every(field => isFilledIn(options.appointment![field]));
+};
+
+/**
+ * Get the statuses an appointment can move to, including its current status
+ */
+export const getAllowedStatuses = (
+  enumConfig: AppointmentEnumConfig | undefined,
+  statuses: string[],
+  from: string,
+  options: StatusTransitionOptions = {}
+) => {
+  const transitions = getStatusTransitions(enumConfig);
+  if (!transitions) return statuses;
+  return statuses.filter(status => status === from || !!findStatusTransition(transitions, from, status, options));
+};
@@ -0,0 +1,94 @@
+import {
+  AppointmentConflict,
+  AppointmentFormData,
+  CalendarMessages,
+  ClinicClosure,
+  ProviderSchedule
+} from '../types';
+import { parseISODate } from './dateUtils';
+import { enMessages, formatMessage } from './messages';
+import { findClosureOverlap } from './closureUtils';
+import { isProviderAvailable } from './scheduleUtils';
+
+/**
+ * Validation rules shared by the appointment form and calendar interactions
+ */
+
+/**
+ * Check that an appointment ends after it starts
+ */
+export const isEndAfterStart = (startTime: string, endTime: string) => {
+  const startDate = parseISODate(startTime);
+  const endDate = parseISODate(endTime);
+
+  if (!startDate || !endDate) return false;
+
+  return endDate > startDate;
+};
+
+/**
+ * Check appointment form data against the appointment form's rules
+ * Returns error messages keyed by field, empty when the data is valid. Status
+ * transitions depend on the appointment being edited and are checked by the
+ * form; conflicts block saving when given as `blockingConflicts`.
+ */
+export const validateAppointmentFormData = (
+  formData: AppointmentFormData,
+  options: {
+    messages?: CalendarMessages;
+    closures?: ClinicClosure[];
+    providerSchedule?: ProviderSchedule;
+    timeZone?: string;
+    blockingConflicts?: AppointmentConflict[];
+  } = {}
+): Record<string, string> => {
+  const { messages = enMessages, closures = [], providerSchedule, timeZone = 'UTC', blockingConflicts = [] } = options;
+  const errors: Record<string, string> = {};
+
+  if (!formData.title.trim()) {
+    errors.title = messages.titleRequired;
+  }
+
+  if (!formData.startTime) {
+    errors.startTime = messages.startTimeRequired;
+  }
+
+  if (!formData.endTime) {
+    errors.endTime = messages.endTimeRequired;
+  }
+
+  const closure = formData.startTime && formData.endTime
+    ? findClosureOverlap(closures, new Date(formData.startTime), new Date(formData.endTime), timeZone)
+    : undefined;
+
+  if (formData.startTime && formData.endTime && !isEndAfterStart(formData.startTime, formData.endTime)) {
+    errors.endTime = messages.endTimeAfterStart;
+  } else if (closure) {
+    errors.startTime = formatMessage(messages.clinicClosed, { label: closure.label });
+  } else if (
+    providerSchedule &&
+    formData.startTime &&
+    formData.endTime &&
+    !isProviderAvailable(providerSchedule, new Date(formData.startTime), new Date(formData.endTime), timeZone)
+  ) {
+    errors.startTime = messages.providerUnavailable;
+  }
+
+  if (formData.patientEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.patientEmail)) {
+    errors.patientEmail = messages.invalidEmail;
+  }
+
+  if (formData.patientPhone && !/^[\+]?[1-9][\d]{0,15}$/.test(formData.patientPhone.replace(/[\s\-\(\)]/g, ''))) {
+    errors.patientPhone = messages.invalidPhone;
+  }
+
+  if (formData.isOnlineAppointment && !formData.meetingLink) {
+    errors.meetingLink = messages.meetingLinkRequired;
+  }
+
+  if (blockingConflicts.length > 0) {
+    errors.conflicts = messages.conflictsBlocking;
+  }
+
+  return errors;
+};
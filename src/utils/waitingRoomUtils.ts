@@ -0,0 +1,93 @@
+import { Appointment, AppointmentPriority, AppointmentStatus, ArrivalState } from '../types';
+import { parseISODate } from './dateUtils';
+
+/**
+ * Utility functions for patient check-in and the waiting room queue
+ */
+
+const ARRIVAL_STATES = [ArrivalState.EXPECTED, ArrivalState.CHECKED_IN, ArrivalState.IN_ROOM, ArrivalState.DONE];
+
+/**
+ * Get where a patient is in their visit
+ * Cancelled and no-show appointments are not part of the queue and return null.
+ */
+export const getArrivalState = (appointment: Appointment): ArrivalState | null => {
+  switch (appointment.status) {
+    case AppointmentStatus.CANCELLED:
+    case AppointmentStatus.NO_SHOW:
+      return null;
+    case AppointmentStatus.COMPLETED:
+      return ArrivalState.DONE;
+    case AppointmentStatus.IN_PROGRESS:
+      return ArrivalState.IN_ROOM;
+    default:
+      return appointment.checkedInAt ? ArrivalState.CHECKED_IN : ArrivalState.EXPECTED;
+  }
+};
+
+/**
+ * Get the minutes a patient has been waiting (since check-in) or in the room
+ * Returns null for patients who are expected or done.
+ */
+export const getWaitMinutes = (appointment: Appointment, now: Date = new Date()) => {
+  const state = getArrivalState(appointment);
+  const since = state === ArrivalState.CHECKED_IN
+    ? parseISODate(appointment.checkedInAt || '')
+    : state === ArrivalState.IN_ROOM
+      ? parseISODate(appointment.roomedAt || appointment.checkedInAt || '')
+      : null;
+  if (!since) return null;
+
+  return Math.max(0, Math.floor((now.getTime() - since.getTime()) / 60000));
+};
+
+/**
+ * Sort a queue with emergencies first, then by check-in time or start time
+ */
+export const sortWaitingRoomQueue = (appointments: Appointment[]) => {
+  const queueTime = (apt: Appointment) => parseISODate(apt.checkedInAt || apt.startTime)?.getTime() ?? 0;
+
+  return [...appointments].sort((a, b) => {
+    const aEmergency = a.priority === AppointmentPriority.EMERGENCY;
+    const bEmergency = b.priority === AppointmentPriority.EMERGENCY;
+    if (aEmergency !== bEmergency) return aEmergency ? -1 : 1;
+    return queueTime(a) - queueTime(b);
+  });
+};
+
+/**
+ * Group appointments by arrival state, each group sorted as a queue
+ */
+export const groupByArrivalState = (appointments: Appointment[]) => {
+  const groups = {} as Record<ArrivalState, Appointment[]>;
+  ARRIVAL_STATES.forEach(state => {
+    groups[state] = sortWaitingRoomQueue(appointments.filter(apt => getArrivalState(apt) === state));
+  });
+  return groups;
+};
+
+/**
+ * Mark a patient as arrived
+ */
+export const checkInAppointment = (appointment: Appointment, now: Date = new Date()): Appointment => {
+  return {
+    ...appointment,
+    checkedInAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+};
+
+/**
+ * Take a patient to an exam room, starting the visit
+ * Patients roomed without checking in are checked in at the same time.
+ */
+export const assignRoom = (appointment: Appointment, room?: string, now: Date = new Date()): Appointment => {
+  return {
+    ...appointment,
+    status: AppointmentStatus.IN_PROGRESS,
+    room: room ?? appointment.room,
+    checkedInAt: appointment.checkedInAt || now.toISOString(),
+    roomedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+};